@@ -0,0 +1,58 @@
+import { TypeScriptAnalyzer } from "./analyzer.ts";
+
+const FILES = 50;
+const FUNCTIONS_PER_FILE = 100;
+
+/**
+ * Writes a project of `FILES` modules of `FUNCTIONS_PER_FILE` functions each,
+ * in a temporary directory removed once the benchmarks ran. Every function
+ * calls the next one and one function of the previous module, so the call
+ * graph is deep, has cycles through the module imports and the single
+ * blocking call at its end makes every function blocking.
+ */
+function writeSyntheticProject(): string[] {
+  const dir = Deno.makeTempDirSync();
+  // The same files are analyzed by every iteration, so that module summaries
+  // are reused as in a long-running process
+  globalThis.addEventListener(
+    "unload",
+    () => Deno.removeSync(dir, { recursive: true }),
+  );
+  const files: string[] = [];
+  for (let file = 0; file < FILES; file++) {
+    const previous = (file + FILES - 1) % FILES;
+    const lines = [`import { f${previous}_0 } from "./mod${previous}.ts";`];
+    for (let fn = 0; fn < FUNCTIONS_PER_FILE; fn++) {
+      const next = fn + 1 < FUNCTIONS_PER_FILE
+        ? `f${file}_${fn + 1}()`
+        : file === 0
+        ? `Deno.readTextFileSync("data.txt")`
+        : `""`;
+      lines.push(
+        `export function f${file}_${fn}(): string {`,
+        `  return ${fn % 10 === 0 ? `f${previous}_0() + ` : ""}${next};`,
+        `}`,
+      );
+    }
+    const filePath = `${dir}/mod${file}.ts`;
+    Deno.writeTextFileSync(filePath, lines.join("\n"));
+    files.push(filePath);
+  }
+  return files;
+}
+
+const files = writeSyntheticProject();
+
+Deno.bench(
+  `analyze ${FILES * FUNCTIONS_PER_FILE} functions in ${FILES} modules`,
+  () => {
+    new TypeScriptAnalyzer().analyzeFiles(files);
+  },
+);
+
+Deno.bench(
+  `analyze ${FILES * FUNCTIONS_PER_FILE} functions in reverse module order`,
+  () => {
+    new TypeScriptAnalyzer().analyzeFiles([...files].reverse());
+  },
+);
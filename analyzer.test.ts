@@ -0,0 +1,453 @@
+import { assert, assertEquals, assertExists } from "jsr:@std/assert@1.0.11";
+import { functionDisplayName, TypeScriptAnalyzer } from "./analyzer.ts";
+import { withTempDir } from "./test_utils.ts";
+
+function blockingNames(analyzer: TypeScriptAnalyzer): string[] {
+  return [...analyzer.getState().blockingFunctions]
+    .map(functionDisplayName)
+    .sort();
+}
+
+const typedProject = {
+  "repo.ts": `
+  export interface Loader {
+    load(): string;
+  }
+
+  export class Repo implements Loader {
+    load() {
+      return Deno.readTextFileSync("repo.json");
+    }
+  }
+
+  export class MemoryRepo {
+    load() {
+      return "";
+    }
+  }
+  `,
+  "main.ts": `
+  import { Repo, MemoryRepo, type Loader } from "./repo.ts";
+
+  const D = Deno;
+  const { removeSync } = D;
+
+  export function viaInstance() {
+    const repo = new Repo();
+    return repo.load();
+  }
+
+  export function viaInterface(loader: Loader) {
+    return loader.load();
+  }
+
+  export function viaMemory() {
+    return new MemoryRepo().load();
+  }
+
+  export function viaAlias() {
+    D.writeTextFileSync("out.txt", "");
+  }
+
+  export function viaDestructuring() {
+    removeSync("out.txt");
+  }
+  `,
+};
+
+Deno.test("typed mode resolves calls through the type checker", () => {
+  withTempDir(typedProject, (dir) => {
+    const analyzer = new TypeScriptAnalyzer({ typed: true });
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    assertEquals(blockingNames(analyzer), [
+      "Loader.load",
+      "Repo.load",
+      "viaAlias",
+      "viaDestructuring",
+      "viaInstance",
+      "viaInterface",
+    ]);
+  });
+});
+
+Deno.test("syntax mode stays limited to what it can see syntactically", () => {
+  withTempDir(typedProject, (dir) => {
+    const analyzer = new TypeScriptAnalyzer();
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    assertEquals(blockingNames(analyzer), ["Repo.load", "viaInstance"]);
+  });
+});
+
+Deno.test("getBlockingChain returns the shortest path to the blocking call", () => {
+  withTempDir({
+    "main.ts": `
+    function read() {
+      return Deno.readTextFileSync("a.txt");
+    }
+
+    function viaTwo() {
+      return viaOne();
+    }
+
+    function viaOne() {
+      return read();
+    }
+
+    export function entry() {
+      viaTwo();
+      viaOne();
+    }
+    `,
+  }, (dir) => {
+    const analyzer = new TypeScriptAnalyzer();
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    const chain = analyzer.getBlockingChain(`${dir}/main.ts#entry`);
+    assertEquals(chain?.functions.map(functionDisplayName), [
+      "entry",
+      "viaOne",
+      "read",
+    ]);
+    assertEquals(chain?.root.call, {
+      module: "Deno",
+      name: "readTextFileSync",
+    });
+    assertEquals(chain?.root.location, {
+      file: `${dir}/main.ts`,
+      line: 3,
+      column: 14,
+    });
+  });
+});
+
+Deno.test("blocking status propagates independently of analysis order and through cycles", () => {
+  withTempDir({
+    "main.ts": `import { load } from "./store.ts";
+
+export async function handler() {
+  return ping(3);
+}
+
+function ping(n: number): string {
+  return n > 0 ? pong(n - 1) : load();
+}
+
+function pong(n: number): string {
+  return ping(n);
+}
+`,
+    "store.ts": `import { handler } from "./main.ts";
+
+export function load() {
+  return Deno.readTextFileSync("store.json");
+}
+
+export async function reload() {
+  await handler();
+  return load();
+}
+`,
+  }, (dir) => {
+    const expected = ["handler", "load", "ping", "pong", "reload"];
+
+    for (const files of [["main.ts", "store.ts"], ["store.ts", "main.ts"]]) {
+      const analyzer = new TypeScriptAnalyzer();
+      analyzer.analyzeFiles(files.map((file) => `${dir}/${file}`));
+      assertEquals(blockingNames(analyzer), expected);
+
+      const incremental = new TypeScriptAnalyzer();
+      for (const file of files) incremental.analyzeFile(`${dir}/${file}`);
+      assertEquals(blockingNames(incremental), expected);
+    }
+  });
+});
+
+Deno.test("calls are attributed to their innermost enclosing function", () => {
+  withTempDir({
+    "main.ts": `export function outer() {
+  function inner() {
+    return "";
+  }
+  const later = () => inner();
+  Deno.readTextFileSync("outer.txt");
+  return later;
+}
+
+export function callbacks() {
+  [1].forEach(() => Deno.removeSync("item"));
+  return "";
+}
+
+export class Cache {
+  data = Deno.readFileSync("cache.bin");
+  static shared = "";
+  static {
+    Deno.mkdirSync("cache");
+  }
+  get size() {
+    return Deno.statSync("cache.bin").size;
+  }
+  load = () => "";
+}
+
+const handlers = {
+  save() {
+    return Deno.writeTextFileSync("out.txt", "");
+  },
+};
+`,
+  }, (dir) => {
+    const analyzer = new TypeScriptAnalyzer();
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    assertEquals(blockingNames(analyzer), [
+      "Cache.<static>",
+      "Cache.constructor",
+      "Cache.size",
+      "callbacks",
+      "callbacks.<anonymous@11:15>",
+      "handlers.save",
+      "outer",
+    ]);
+  });
+});
+
+Deno.test("functions passed to higher-order functions calling them propagate", () => {
+  withTempDir({
+    "helpers.ts": `export function retry<T>(fn: () => T): T {
+  try {
+    return fn();
+  } catch {
+    return fn();
+  }
+}
+
+export function later(fn: () => void) {
+  return () => fn();
+}
+`,
+    "main.ts": `import { later, retry } from "./helpers.ts";
+
+function writeRecord(record: string) {
+  Deno.writeTextFileSync("records.txt", record);
+}
+
+function loadSync(path: string) {
+  return Deno.readTextFileSync(path);
+}
+
+function readConfig() {
+  return loadSync("config.json");
+}
+
+export async function save(items: string[]) {
+  items.forEach(writeRecord);
+}
+
+export async function loadAll(paths: string[]) {
+  return await Promise.all(paths.map(loadSync));
+}
+
+export async function configure() {
+  return retry(readConfig);
+}
+
+export async function copy(rows: Iterable<string>) {
+  return Array.from(rows, (row) => writeRecord(row));
+}
+
+export async function schedule() {
+  return later(readConfig);
+}
+`,
+  }, (dir) => {
+    const analyzer = new TypeScriptAnalyzer();
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    assertEquals(blockingNames(analyzer), [
+      "configure",
+      "copy",
+      "copy.<anonymous@28:27>",
+      "loadAll",
+      "loadSync",
+      "readConfig",
+      "save",
+      "writeRecord",
+    ]);
+  });
+});
+
+Deno.test("calls are resolved through classes, instances and inheritance", () => {
+  withTempDir({
+    "repo.ts": `export class Store {
+  constructor() {
+    Deno.mkdirSync("store", { recursive: true });
+  }
+
+  flush() {
+    Deno.writeTextFileSync("store/data", "");
+  }
+}
+
+export class Memory {
+  flush() {}
+}
+`,
+    "main.ts": `import { Memory, Store } from "./repo.ts";
+
+class Repo extends Store {
+  save() {
+    this.flush();
+  }
+
+  load = () => "";
+}
+
+class Cached extends Repo {
+  override flush() {
+    super.flush();
+  }
+}
+
+export async function create() {
+  return new Repo();
+}
+
+export async function save() {
+  const repo = Repo.prototype;
+  const memory = new Memory();
+  memory.flush();
+  repo.load();
+}
+
+export async function persist(repo: Repo) {
+  repo.save();
+}
+
+export async function sync(cached: Cached) {
+  cached.flush();
+}
+`,
+  }, (dir) => {
+    const analyzer = new TypeScriptAnalyzer();
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    assertEquals(blockingNames(analyzer), [
+      "Cached.flush",
+      "Repo.save",
+      "Store.constructor",
+      "Store.flush",
+      "create",
+      "persist",
+      "sync",
+    ]);
+  });
+});
+
+Deno.test("analyzers share module summaries until their file changes", () => {
+  withTempDir({
+    "io.ts": `export function read() {
+  return Deno.readTextFileSync("a.txt");
+}
+`,
+    "main.ts": `import { read } from "./io.ts";
+
+export function load() {
+  return read();
+}
+`,
+  }, (dir) => {
+    const analyze = () => {
+      const analyzer = new TypeScriptAnalyzer();
+      analyzer.analyzeFile(`${dir}/main.ts`);
+      return analyzer;
+    };
+    /** Where `read` makes its blocking call, as recorded in its summary */
+    const readCall = (analyzer: TypeScriptAnalyzer) =>
+      analyzer.getState().rootCalls.get(`${dir}/io.ts#read`)?.location;
+
+    const first = analyze();
+    const second = analyze();
+    assertEquals(blockingNames(first), ["load", "read"]);
+    assertEquals(blockingNames(second), ["load", "read"]);
+    // Parsing the file again would have created a new summary
+    const location = readCall(first);
+    assertExists(location);
+    assert(readCall(second) === location, "io.ts was summarized again");
+
+    Deno.writeTextFileSync(
+      `${dir}/io.ts`,
+      `export async function read() {
+  return await Deno.readTextFile("a.txt");
+}
+`,
+    );
+    assertEquals(blockingNames(analyze()), []);
+  });
+});
+
+Deno.test("analyzers persist summaries to the summary cache directory", () => {
+  withTempDir({
+    "main.ts": `export function load() {
+  return Deno.readTextFileSync("a.txt");
+}
+`,
+  }, (dir) => {
+    const analyzer = new TypeScriptAnalyzer({
+      root: dir,
+      summaryCacheDir: ".cache",
+    });
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    const entries = [...Deno.readDirSync(`${dir}/.cache`)];
+    assertEquals(entries.length, 1);
+    const stored = JSON.parse(
+      Deno.readTextFileSync(`${dir}/.cache/${entries[0].name}`),
+    );
+    assertEquals(stored.summary.path, `${dir}/main.ts`);
+    assertEquals(stored.summary.functions.map((fn: { id: string }) => fn.id), [
+      `${dir}/main.ts#load`,
+    ]);
+  });
+});
+
+Deno.test("constructors and property initializers share one function summary", () => {
+  withTempDir({
+    "main.ts": `export class Cache {
+  data = Deno.readFileSync("cache.bin");
+
+  /** @nonblocking runs once at startup */
+  constructor() {
+    Deno.mkdirSync("cache", { recursive: true });
+  }
+
+  size = 0;
+}
+`,
+  }, (dir) => {
+    const analyzer = new TypeScriptAnalyzer({
+      root: dir,
+      summaryCacheDir: ".cache",
+    });
+    analyzer.analyzeFile(`${dir}/main.ts`);
+
+    const [entry] = [...Deno.readDirSync(`${dir}/.cache`)];
+    const stored = JSON.parse(
+      Deno.readTextFileSync(`${dir}/.cache/${entry.name}`),
+    );
+    assertEquals(
+      stored.summary.functions.map((
+        fn: { id: string; location: { line: number }; end: { line: number } },
+      ) => [fn.id, fn.location.line, fn.end.line]),
+      [[`${dir}/main.ts#Cache.constructor`, 2, 10]],
+    );
+    assertEquals(
+      analyzer.getState().annotations.get(`${dir}/main.ts#Cache.constructor`)
+        ?.kind,
+      "nonblocking",
+    );
+    assertEquals(blockingNames(analyzer), []);
+  });
+});
@@ -1,39 +1,897 @@
 // analyzer.ts
 import ts from "npm:typescript@5.7.2";
 import * as path from "jsr:@std/path@1.0.8";
+import {
+  BLOCKING_EXPORTS,
+  BLOCKING_EXPORTS_VERSION,
+  type BlockingExports,
+  mergeBlockingExports,
+} from "./blocking_exports.ts";
+import {
+  type Config,
+  isIgnoredPath,
+  loadDirectoryConfig,
+  matchesApi,
+  readConfigFile,
+} from "./config.ts";
+import {
+  buildReport,
+  formatReport,
+  hasFindings,
+  REPORT_FORMATS,
+  type ReportFormat,
+} from "./report.ts";
+import { editedFiles, formatAsyncifyPlan, planAsyncify } from "./asyncify.ts";
+import { findSourceFiles } from "./project.ts";
+import { ModuleResolver } from "./resolver.ts";
+import { SummaryStore } from "./summary_store.ts";
 
-interface FunctionLocation {
+export interface FunctionLocation {
   file: string;
   line: number;
   column: number;
 }
 
+type Position = Omit<FunctionLocation, "file">;
+
+function locationOf(node: ts.Node): FunctionLocation {
+  const sourceFile = node.getSourceFile();
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    node.getStart(),
+  );
+  return { file: sourceFile.fileName, line: line + 1, column: character + 1 };
+}
+
+/** Line and column just past the end of `node` */
+function endOf(node: ts.Node): Position {
+  const { line, character } = node.getSourceFile()
+    .getLineAndCharacterOfPosition(node.end);
+  return { line: line + 1, column: character + 1 };
+}
+
+function comparePositions(a: Position, b: Position): number {
+  return a.line - b.line || a.column - b.column;
+}
+
+/**
+ * Functions are tracked by a qualified ID of the form
+ * `<absolute file>#<Container>.<name>`, e.g. `/src/cache.ts#Cache.save`.
+ */
 export interface AnalyzerState {
   blockingFunctions: Set<string>;
   analyzedFiles: Map<string, Set<string>>;
   functionCalls: Map<string, Set<string>>;
   functionLocations: Map<string, FunctionLocation>;
+  /**
+   * Resolved callee ID of each call, keyed by file and call end offset (chained
+   * calls like `a().b()` share their start offset)
+   */
+  callSites: Map<string, Map<number, string>>;
+  /** Calls to blocking APIs, keyed by file and call end offset */
+  blockingCalls: Map<string, Map<number, BlockingCall>>;
+  /** The first blocking API call made directly by each function */
+  rootCalls: Map<string, RootCall>;
+  /** `@blocking` and `@nonblocking` JSDoc annotations on functions */
+  annotations: Map<string, Annotation>;
+  /** `@nonblocking` functions that would otherwise be blocking */
+  suppressedFunctions: Set<string>;
+  /** Functions declared `async` */
+  asyncFunctions: Set<string>;
+  /** Imports that couldn't be resolved to a file, by specifier */
+  unresolvedDependencies: Map<string, UnresolvedDependency>;
+  /** Resolved functions passed as arguments, keyed by file and argument offset */
+  callbackSites: Map<string, Map<number, string>>;
+  /** Callbacks of scheduling APIs such as `setTimeout`, and the API */
+  entryPoints: Map<string, string>;
+  /**
+   * Functions passed to higher-order functions calling them, keyed by file
+   * and argument offset
+   */
+  invokedCallbacks: Map<string, Map<number, string>>;
+}
+
+export interface UnresolvedDependency {
+  specifier: string;
+  /** First file importing the specifier */
+  importer: string;
+  reason: string;
+}
+
+/**
+ * A JSDoc tag overriding what the analyzer finds: `@nonblocking reason` stops
+ * blocking status from propagating to callers, `@blocking reason` marks a
+ * function the analyzer can't see into (e.g. an FFI wrapper) as blocking.
+ */
+export interface Annotation {
+  kind: "blocking" | "nonblocking";
+  reason?: string;
+  location: FunctionLocation;
+  /** Source range of the tag */
+  range: [number, number];
+}
+
+/** An annotation that doesn't match what the analyzer finds */
+export interface AnnotationWarning {
+  id: string;
+  annotation: Annotation;
+  message: string;
+}
+
+export interface RootCall {
+  call: BlockingCall;
+  location: FunctionLocation;
+}
+
+/**
+ * Shortest path from a blocking function to the blocking API call that makes
+ * it blocking, e.g. `loadConfig -> parseFile -> Deno.readTextFileSync`.
+ */
+export interface BlockingChain {
+  /** IDs of the functions on the path, starting with the queried one */
+  functions: string[];
+  root: RootCall;
+}
+
+/** A call to a blocking runtime API such as `Deno.readFileSync` */
+export interface BlockingCall {
+  /**
+   * `Deno` for the Deno namespace, the module for imported APIs (e.g.
+   * `node:fs`), unset for APIs configured through `blockingApis`
+   */
+  module?: string;
+  name: string;
+  /** Resource a blocking method is called on, e.g. `Deno.FsFile` */
+  receiver?: string;
+  /** Async export of the same module to use instead */
+  replacement?: string;
+}
+
+/** Formats a blocking API call, e.g. `Deno.readTextFileSync` or `node:fs.readFileSync` */
+export function blockingCallLabel(call: BlockingCall): string {
+  if (call.receiver) return `${call.receiver}#${call.name}`;
+  return call.module ? `${call.module}.${call.name}` : call.name;
+}
+
+/**
+ * Formats a chain as `a -> b -> Deno.readTextFileSync (file:line:column)`,
+ * optionally starting from the function that calls into it.
+ */
+export function formatBlockingChain(
+  chain: BlockingChain,
+  caller?: string,
+): string {
+  const { call, location } = chain.root;
+  return [
+    ...(caller === undefined ? [] : [caller]),
+    ...chain.functions.map(functionDisplayName),
+    `${
+      blockingCallLabel(call)
+    } (${location.file}:${location.line}:${location.column})`,
+  ].join(" -> ");
+}
+
+/** Returns the qualified name part of a function ID, e.g. `Cache.save` */
+export function functionDisplayName(id: string): string {
+  const separator = id.indexOf("#", id.lastIndexOf("/"));
+  return separator === -1 ? id : id.slice(separator + 1);
+}
+
+/**
+ * What a name refers to within its module, before imports are followed:
+ * a declaration, or an imported binding and the members accessed on it
+ * (`fs.promises.readFile` is `fs` with members `promises` and `readFile`).
+ */
+type LocalRef =
+  | { kind: "declaration"; id: string }
+  | { kind: "import"; name: string; members: string[] };
+
+type SummaryExport =
+  | { kind: "declaration"; id: string }
+  | { kind: "local"; ref?: LocalRef }
+  | { kind: "reexport"; specifier: string; name: string };
+
+interface FunctionSummary {
+  id: string;
+  location: FunctionLocation;
+  /** End of the declaration, see `functionAt` */
+  end: Position;
+  async: boolean;
+  annotation?: Annotation;
+  /** Indices of the parameters the function calls */
+  invokedParameters?: number[];
+}
+
+interface CallSummary {
+  /** Function the call is made from */
+  caller?: string;
+  /** End offset of the call expression */
+  offset: number;
+  location: FunctionLocation;
+  /** Dotted callee name, see `calleeName` */
+  name?: string;
+  callee?: LocalRef;
+  /** Blocking API the call goes to, when it can be told from the syntax */
+  blockingCall?: BlockingCall;
+  /** Functions passed as arguments, by argument index and start offset */
+  callbacks?: CallbackSummary[];
+  /** Scheduling API running the callbacks as event-loop tasks */
+  entryPoint?: string;
+  /** Indices of the arguments a built-in higher-order call invokes */
+  invokedArguments?: number[];
+}
+
+interface CallbackSummary {
+  index: number;
+  offset: number;
+  ref: LocalRef;
+}
+
+/**
+ * Facts about a module extracted from its syntax tree alone: everything the
+ * analysis needs to link it with the other modules, without the tree itself.
+ */
+interface ModuleSummary {
+  path: string;
+  /** `mtime:size` of the file the summary was computed from */
+  stamp: string;
+  /** Specifiers of the imports and re-exports, in source order */
+  dependencies: string[];
+  /** Local name, import specifier and name it is imported as */
+  imports: [string, { specifier: string; name: string }][];
+  exports: [string, SummaryExport][];
+  /** Specifiers re-exported through `export * from` */
+  starExports: string[];
+  functions: FunctionSummary[];
+  calls: CallSummary[];
+  /** Classes and the class they extend */
+  superclasses: [string, LocalRef][];
+  /** Interface members and the class members implementing them */
+  implementations: {
+    member: string;
+    location: FunctionLocation;
+    implementation: string;
+  }[];
+}
+
+/**
+ * Version of the module summaries, to bump whenever their format or the
+ * rules they are extracted with change so stored summaries get recomputed
+ */
+const SUMMARY_VERSION = 9;
+
+/**
+ * Summaries of the modules analyzed in syntax mode, by path, shared by all
+ * analyzers of the process so that e.g. the rule instances of one lint run
+ * parse each module once. Entries are replaced when their file changes.
+ */
+const summaryCache = new Map<string, ModuleSummary>();
+
+/** A function passed to another function, which may call it */
+interface PassedCallback {
+  caller?: string;
+  callee: string;
+  index: number;
+  callback: string;
+  file: string;
+  offset: number;
+}
+
+/** A module summary linked to the modules its imports resolve to */
+interface ModuleInfo {
+  path: string;
+  summary: ModuleSummary;
+  dependencies: Set<string>;
+  /** Local name to the module and exported name it is imported from */
+  imports: Map<string, { module: string; name: string }>;
+  /** Exported name to the declaration or binding it refers to */
+  exports: Map<string, ExportEntry>;
+  /** Modules re-exported through `export * from` */
+  starExports: string[];
+}
+
+type ExportEntry =
+  | { kind: "declaration"; id: string }
+  | { kind: "local"; ref?: LocalRef }
+  | { kind: "reexport"; module: string; name: string };
+
+/**
+ * What a name resolves to: a declaration, a whole module namespace, or an
+ * export of a module the analyzer doesn't analyze (e.g. `node:fs`)
+ */
+type Binding =
+  | { kind: "declaration"; id: string }
+  | { kind: "namespace"; module: string }
+  | { kind: "external"; module: string; name: string };
+
+/** Node modules whose `*Sync` exports block the event loop */
+const NODE_SYNC_MODULES = new Set([
+  "node:child_process",
+  "node:crypto",
+  "node:fs",
+  "node:zlib",
+]);
+
+/**
+ * Normalizes `node:fs` and bare `fs` (as resolved by the npm compatibility
+ * layer) to `node:fs`, for the modules in `NODE_SYNC_MODULES`.
+ */
+function nodeModuleName(specifier: string): string | undefined {
+  const name = specifier.startsWith("node:") ? specifier : `node:${specifier}`;
+  return NODE_SYNC_MODULES.has(name) ? name : undefined;
+}
+
+/** Dotted name of a callee such as `utils.fastHashSync`, if it has one */
+function calleeName(expr: ts.Expression): string | undefined {
+  if (ts.isIdentifier(expr)) return expr.text;
+  if (expr.kind === ts.SyntaxKind.ThisKeyword) return "this";
+  if (ts.isPropertyAccessExpression(expr)) {
+    const owner = calleeName(expr.expression);
+    return owner === undefined ? undefined : `${owner}.${expr.name.text}`;
+  }
+  return undefined;
+}
+
+/** Functions whose callbacks run as event-loop tasks, see `Config.entryPoints` */
+const ENTRY_POINT_FUNCTIONS = [
+  "setTimeout",
+  "setInterval",
+  "queueMicrotask",
+  "Deno.cron",
+  "Deno.serve",
+];
+
+/** Methods whose callbacks run as event-loop tasks, on any receiver */
+const ENTRY_POINT_METHODS = ["addEventListener", "then"];
+
+/**
+ * Returns the scheduling API a call to `name` (e.g. `globalThis.setTimeout`)
+ * or to the method `method` (e.g. `then`) is, if any
+ */
+export function entryPointApi(
+  name: string | undefined,
+  method: string | undefined,
+): string | undefined {
+  const global = name?.replace(/^(globalThis|window|self)\./, "");
+  if (global && ENTRY_POINT_FUNCTIONS.includes(global)) return global;
+  if (method && ENTRY_POINT_METHODS.includes(method)) return method;
+  return undefined;
+}
+
+/** Array methods calling the callback passed as their first argument */
+const ARRAY_CALLBACK_METHODS = new Set([
+  "every",
+  "filter",
+  "find",
+  "findIndex",
+  "findLast",
+  "findLastIndex",
+  "flatMap",
+  "forEach",
+  "map",
+  "reduce",
+  "reduceRight",
+  "some",
+  "sort",
+  "toSorted",
+]);
+
+/** Indices of the arguments a built-in higher-order function calls */
+function invokedArgumentsOf(
+  node: ts.CallExpression | ts.NewExpression,
+): number[] | undefined {
+  const expr = node.expression;
+  // The executor of a promise runs synchronously, in its constructor
+  if (ts.isNewExpression(node)) {
+    return calleeName(expr) === "Promise" ? [0] : undefined;
+  }
+  if (calleeName(expr) === "Array.from") return [1];
+  if (
+    ts.isPropertyAccessExpression(expr) &&
+    ARRAY_CALLBACK_METHODS.has(expr.name.text)
+  ) {
+    return [0];
+  }
+  return undefined;
+}
+
+/** Returns the blocking `Deno` API a call goes to, if it is one */
+function blockingCallOf(expr: ts.Expression): BlockingCall | undefined {
+  if (
+    ts.isPropertyAccessExpression(expr) &&
+    ts.isIdentifier(expr.expression) &&
+    expr.expression.text === "Deno" &&
+    ts.isIdentifier(expr.name) &&
+    expr.name.text.endsWith("Sync")
+  ) {
+    return { module: "Deno", name: expr.name.text };
+  }
+  if (ts.isPropertyAccessExpression(expr)) {
+    const receiver = denoResourceOf(expr.expression);
+    if (
+      receiver &&
+      DENO_RESOURCE_SYNC_METHODS[receiver].includes(expr.name.text)
+    ) {
+      return { module: "Deno", name: expr.name.text, receiver };
+    }
+  }
+  return undefined;
+}
+
+export type FunctionLike =
+  | ts.FunctionDeclaration
+  | ts.FunctionExpression
+  | ts.ArrowFunction
+  | ts.MethodDeclaration
+  | ts.ConstructorDeclaration
+  | ts.AccessorDeclaration;
+
+function hasModifier(node: ts.Node, kind: ts.SyntaxKind): boolean {
+  return ts.canHaveModifiers(node) &&
+    (ts.getModifiers(node)?.some((modifier) => modifier.kind === kind) ??
+      false);
+}
+
+function propertyNameText(name: ts.PropertyName): string | undefined {
+  if (
+    ts.isIdentifier(name) || ts.isPrivateIdentifier(name) ||
+    ts.isStringLiteral(name) || ts.isNumericLiteral(name)
+  ) {
+    return name.text;
+  }
+  return undefined;
+}
+
+/** Whether `node` is the anonymous value of an `export default` */
+function isDefaultExport(node: ts.Node): boolean {
+  return hasModifier(node, ts.SyntaxKind.DefaultKeyword) ||
+    ts.isExportAssignment(node.parent);
+}
+
+/** Name of a function, taken from its declaration or the binding it is assigned to */
+function functionName(node: FunctionLike): string | undefined {
+  if (ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node)) {
+    if (node.name) return node.name.text;
+  }
+  if (ts.isMethodDeclaration(node) || ts.isAccessor(node)) {
+    return propertyNameText(node.name);
+  }
+  if (ts.isConstructorDeclaration(node)) {
+    return "constructor";
+  }
+  if (isDefaultExport(node)) {
+    return "default";
+  }
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  if (ts.isPropertyAssignment(parent) || ts.isPropertyDeclaration(parent)) {
+    return propertyNameText(parent.name);
+  }
+  return undefined;
+}
+
+/** Name of an object literal, taken from the binding it is assigned to */
+function objectLiteralName(
+  node: ts.ObjectLiteralExpression,
+): string | undefined {
+  const parent = node.parent;
+  if (ts.isVariableDeclaration(parent) && ts.isIdentifier(parent.name)) {
+    return parent.name.text;
+  }
+  if (ts.isPropertyAssignment(parent)) {
+    return propertyNameText(parent.name);
+  }
+  return isDefaultExport(node) ? "default" : undefined;
+}
+
+function className(node: ts.ClassLikeDeclaration): string | undefined {
+  return node.name?.text ?? (isDefaultExport(node) ? "default" : undefined);
+}
+
+export function isFunctionLike(node: ts.Node): node is FunctionLike {
+  return ts.isFunctionDeclaration(node) || ts.isFunctionExpression(node) ||
+    ts.isArrowFunction(node) || ts.isMethodDeclaration(node) ||
+    ts.isConstructorDeclaration(node) || ts.isAccessor(node);
+}
+
+type Declaration =
+  | ts.FunctionDeclaration
+  | ts.ClassDeclaration
+  | ts.VariableDeclaration
+  | ts.ParameterDeclaration
+  | ts.BindingElement;
+
+/**
+ * Returns the part of `declaration` binding `name`: the declaration itself
+ * or, for destructuring patterns, the element binding it
+ */
+function bindingOf(
+  declaration: ts.VariableDeclaration | ts.ParameterDeclaration,
+  name: string,
+): Declaration | undefined {
+  const visit = (
+    node: ts.BindingName,
+    owner: ts.VariableDeclaration | ts.ParameterDeclaration | ts.BindingElement,
+  ): Declaration | undefined => {
+    if (ts.isIdentifier(node)) return node.text === name ? owner : undefined;
+    for (const element of node.elements) {
+      if (ts.isOmittedExpression(element)) continue;
+      const found = visit(element.name, element);
+      if (found) return found;
+    }
+    return undefined;
+  };
+  return visit(declaration.name, declaration);
+}
+
+/**
+ * Finds the declaration `name` refers to at `from` by walking the enclosing
+ * scopes, innermost first. Returns undefined for names not declared in the
+ * file, i.e. globals and imports.
+ */
+function lookupDeclaration(
+  name: string,
+  from: ts.Node,
+): Declaration | undefined {
+  for (let scope = from.parent; scope; scope = scope.parent) {
+    if (isFunctionLike(scope)) {
+      for (const parameter of scope.parameters) {
+        const binding = bindingOf(parameter, name);
+        if (binding) return binding;
+      }
+    }
+    if (
+      (ts.isForStatement(scope) || ts.isForOfStatement(scope) ||
+        ts.isForInStatement(scope)) &&
+      scope.initializer && ts.isVariableDeclarationList(scope.initializer)
+    ) {
+      for (const declaration of scope.initializer.declarations) {
+        const binding = bindingOf(declaration, name);
+        if (binding) return binding;
+      }
+    }
+    if (ts.isCatchClause(scope) && scope.variableDeclaration) {
+      const binding = bindingOf(scope.variableDeclaration, name);
+      if (binding) return binding;
+    }
+    if (
+      !ts.isSourceFile(scope) && !ts.isBlock(scope) &&
+      !ts.isModuleBlock(scope) && !ts.isCaseOrDefaultClause(scope)
+    ) {
+      continue;
+    }
+    for (const statement of scope.statements) {
+      if (
+        (ts.isFunctionDeclaration(statement) ||
+          ts.isClassDeclaration(statement)) &&
+        statement.name?.text === name
+      ) {
+        return statement;
+      }
+      if (!ts.isVariableStatement(statement)) continue;
+      for (const declaration of statement.declarationList.declarations) {
+        const binding = bindingOf(declaration, name);
+        if (binding) return binding;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Returns the class a variable or parameter visibly holds an instance of:
+ * `new Repo()` initializers and `Repo` type annotations
+ */
+function instanceClassOf(declaration: Declaration): ts.Expression | undefined {
+  if (ts.isVariableDeclaration(declaration) && declaration.initializer) {
+    let initializer = declaration.initializer;
+    while (
+      ts.isParenthesizedExpression(initializer) ||
+      ts.isAwaitExpression(initializer)
+    ) {
+      initializer = initializer.expression;
+    }
+    if (ts.isNewExpression(initializer)) return initializer.expression;
+  }
+  if (
+    (ts.isVariableDeclaration(declaration) || ts.isParameter(declaration)) &&
+    declaration.type && ts.isTypeReferenceNode(declaration.type) &&
+    ts.isIdentifier(declaration.type.typeName)
+  ) {
+    return declaration.type.typeName;
+  }
+  return undefined;
+}
+
+/** The expression of the `extends` clause of a class */
+function superclassOf(
+  node: ts.ClassLikeDeclaration,
+): ts.Expression | undefined {
+  return node.heritageClauses?.find((clause) =>
+    clause.token === ts.SyntaxKind.ExtendsKeyword
+  )?.types[0]?.expression;
+}
+
+/** A member of the declaration or import `owner` refers to */
+function memberRef(
+  owner: LocalRef | undefined,
+  member: string,
+): LocalRef | undefined {
+  if (owner?.kind === "import") {
+    return { ...owner, members: [...owner.members, member] };
+  }
+  return owner?.kind === "declaration"
+    ? { kind: "declaration", id: `${owner.id}.${member}` }
+    : undefined;
+}
+
+function isDenoMember(expr: ts.Expression, name: string): boolean {
+  return ts.isPropertyAccessExpression(expr) &&
+    ts.isIdentifier(expr.expression) &&
+    expr.expression.text === "Deno" &&
+    expr.name.text === name;
+}
+
+/**
+ * Async equivalents of blocking Deno APIs, keyed by their label (see
+ * `blockingCallLabel`), for the APIs whose async twin takes the same
+ * arguments and resolves to the same value. `Deno.readDirSync` is missing as
+ * `Deno.readDir` returns an async iterable rather than a promise.
+ */
+const DENO_ASYNC_EQUIVALENTS: Record<string, string> = {
+  "Deno.chmodSync": "chmod",
+  "Deno.chownSync": "chown",
+  "Deno.copyFileSync": "copyFile",
+  "Deno.createSync": "create",
+  "Deno.linkSync": "link",
+  "Deno.lstatSync": "lstat",
+  "Deno.makeTempDirSync": "makeTempDir",
+  "Deno.makeTempFileSync": "makeTempFile",
+  "Deno.mkdirSync": "mkdir",
+  "Deno.openSync": "open",
+  "Deno.readFileSync": "readFile",
+  "Deno.readLinkSync": "readLink",
+  "Deno.readTextFileSync": "readTextFile",
+  "Deno.realPathSync": "realPath",
+  "Deno.removeSync": "remove",
+  "Deno.renameSync": "rename",
+  "Deno.statSync": "stat",
+  "Deno.symlinkSync": "symlink",
+  "Deno.truncateSync": "truncate",
+  "Deno.utimeSync": "utime",
+  "Deno.writeFileSync": "writeFile",
+  "Deno.writeTextFileSync": "writeTextFile",
+  "Deno.Command#outputSync": "output",
+  "Deno.FsFile#lockSync": "lock",
+  "Deno.FsFile#readSync": "read",
+  "Deno.FsFile#seekSync": "seek",
+  "Deno.FsFile#statSync": "stat",
+  "Deno.FsFile#syncDataSync": "syncData",
+  "Deno.FsFile#syncSync": "sync",
+  "Deno.FsFile#truncateSync": "truncate",
+  "Deno.FsFile#unlockSync": "unlock",
+  "Deno.FsFile#utimeSync": "utime",
+  "Deno.FsFile#writeSync": "write",
+  "Deno.stdin#readSync": "read",
+  "Deno.stdout#writeSync": "write",
+  "Deno.stderr#writeSync": "write",
+};
+
+/**
+ * Returns the name of the async Deno API to call instead of `call` with the
+ * same arguments and receiver, if there is a safe one
+ */
+export function asyncEquivalent(call: BlockingCall): string | undefined {
+  return call.module === "Deno"
+    ? DENO_ASYNC_EQUIVALENTS[blockingCallLabel(call)]
+    : undefined;
+}
+
+/** Sync methods of Deno resources, keyed by the resource they are called on */
+const DENO_RESOURCE_SYNC_METHODS: Record<string, string[]> = {
+  "Deno.Command": ["outputSync"],
+  "Deno.FsFile": [
+    "readSync",
+    "writeSync",
+    "seekSync",
+    "statSync",
+    "truncateSync",
+    "syncSync",
+    "syncDataSync",
+    "utimeSync",
+    "lockSync",
+    "unlockSync",
+  ],
+  "Deno.stdin": ["readSync"],
+  "Deno.stdout": ["writeSync"],
+  "Deno.stderr": ["writeSync"],
+};
+
+/**
+ * Returns the Deno resource `expr` evaluates to, following local variables
+ * back to where the resource was created.
+ */
+function denoResourceOf(
+  expr: ts.Expression,
+  seen = new Set<ts.Node>(),
+): string | undefined {
+  while (
+    ts.isParenthesizedExpression(expr) || ts.isAwaitExpression(expr) ||
+    ts.isAsExpression(expr) || ts.isSatisfiesExpression(expr) ||
+    ts.isNonNullExpression(expr)
+  ) {
+    expr = expr.expression;
+  }
+  if (ts.isNewExpression(expr) && isDenoMember(expr.expression, "Command")) {
+    return "Deno.Command";
+  }
+  if (
+    ts.isCallExpression(expr) &&
+    ["open", "openSync", "create", "createSync"].some((name) =>
+      isDenoMember(expr.expression, name)
+    )
+  ) {
+    return "Deno.FsFile";
+  }
+  for (const stream of ["stdin", "stdout", "stderr"]) {
+    if (isDenoMember(expr, stream)) return `Deno.${stream}`;
+  }
+  if (ts.isIdentifier(expr)) {
+    const declaration = lookupDeclaration(expr.text, expr);
+    if (
+      declaration && ts.isVariableDeclaration(declaration) &&
+      declaration.initializer && !seen.has(declaration)
+    ) {
+      seen.add(declaration);
+      return denoResourceOf(declaration.initializer, seen);
+    }
+  }
+  return undefined;
+}
+
+/** Name a checker-resolved declaration is tracked under */
+function declarationName(node: ts.Declaration): string | undefined {
+  if (ts.isFunctionDeclaration(node)) {
+    return functionName(node);
+  }
+  if (ts.isClassDeclaration(node)) {
+    return className(node);
+  }
+  if (ts.isVariableDeclaration(node)) {
+    return ts.isIdentifier(node.name) ? node.name.text : undefined;
+  }
+  if (
+    ts.isMethodDeclaration(node) || ts.isMethodSignature(node) ||
+    ts.isPropertyDeclaration(node) || ts.isPropertySignature(node) ||
+    ts.isPropertyAssignment(node)
+  ) {
+    return propertyNameText(node.name);
+  }
+  return undefined;
+}
+
+/**
+ * Names of the classes, interfaces, object literals and functions enclosing `node`,
+ * outermost first.
+ */
+function containerNames(node: ts.Node): string[] {
+  const names: string[] = [];
+  for (let current = node.parent; current; current = current.parent) {
+    let name: string | undefined;
+    if (ts.isClassLike(current)) {
+      name = className(current);
+    } else if (ts.isInterfaceDeclaration(current)) {
+      name = current.name.text;
+    } else if (ts.isObjectLiteralExpression(current)) {
+      name = objectLiteralName(current);
+    } else if (isFunctionLike(current)) {
+      name = functionName(current);
+    }
+    if (name !== undefined) names.unshift(name);
+  }
+  return names;
+}
+
+export interface AnalyzerOptions extends Config {
+  /** Directory `ignore` globs are relative to, defaults to the cwd */
+  root?: string;
+  /** Deno cache to resolve remote imports from, defaults to `DENO_DIR` */
+  cacheDir?: string;
 }
 
+const TYPED_COMPILER_OPTIONS: ts.CompilerOptions = {
+  target: ts.ScriptTarget.ESNext,
+  module: ts.ModuleKind.ESNext,
+  moduleResolution: ts.ModuleResolutionKind.Bundler,
+  lib: ["lib.esnext.d.ts"],
+  allowImportingTsExtensions: true,
+  allowJs: true,
+  noEmit: true,
+  skipLibCheck: true,
+};
+
 export class TypeScriptAnalyzer {
   private state: AnalyzerState = {
     blockingFunctions: new Set<string>(),
     analyzedFiles: new Map<string, Set<string>>(),
     functionCalls: new Map<string, Set<string>>(),
     functionLocations: new Map<string, FunctionLocation>(),
+    callSites: new Map<string, Map<number, string>>(),
+    blockingCalls: new Map<string, Map<number, BlockingCall>>(),
+    rootCalls: new Map<string, RootCall>(),
+    annotations: new Map<string, Annotation>(),
+    suppressedFunctions: new Set<string>(),
+    asyncFunctions: new Set<string>(),
+    unresolvedDependencies: new Map<string, UnresolvedDependency>(),
+    callbackSites: new Map<string, Map<number, string>>(),
+    entryPoints: new Map<string, string>(),
+    invokedCallbacks: new Map<string, Map<number, string>>(),
   };
+  private modules = new Map<string, ModuleInfo>();
+  private program?: ts.Program;
+  private checker?: ts.TypeChecker;
+  private rootNames: string[] = [];
+  private resolver: ModuleResolver;
+  /** Bundled and configured blocking exports of packages */
+  private blockingExports: BlockingExports;
+  private store?: SummaryStore<ModuleSummary>;
+  /** Reverse of `functionCalls`: the callers of each function */
+  private callers = new Map<string, Set<string>>();
+  /** Functions to mark blocking in the next `propagateBlocking` pass */
+  private pending: string[] = [];
+  /** Classes and the class they extend */
+  private superclasses = new Map<string, string>();
+  /** Indices of the parameters each higher-order function calls */
+  private invokedParameters = new Map<string, number[]>();
+  /** Functions passed to local functions, linked once those are analyzed */
+  private passedCallbacks: PassedCallback[] = [];
+  /** Functions declared in each analyzed file */
+  private fileFunctions = new Map<string, FunctionSummary[]>();
+  /** Modules of known packages, by path, and the package they belong to */
+  private packageEntries = new Map<string, string>();
+  /** Content to analyze instead of what is on disk, by absolute path */
+  private sources = new Map<string, string>();
 
-  private normalizeImportPath(
-    importSpecifier: string,
-    currentFile: string,
-  ): string {
-    if (!importSpecifier.startsWith(".")) {
-      return importSpecifier;
+  constructor(private options: AnalyzerOptions = {}) {
+    this.resolver = new ModuleResolver(options.cacheDir);
+    this.blockingExports = mergeBlockingExports(
+      BLOCKING_EXPORTS,
+      options.blockingExports,
+    );
+    if (options.summaryCacheDir) {
+      const { root, cacheDir: _, summaryCacheDir, ...config } = options;
+      this.store = new SummaryStore(
+        path.resolve(root ?? Deno.cwd(), summaryCacheDir),
+        {
+          version: SUMMARY_VERSION,
+          blockingExportsVersion: BLOCKING_EXPORTS_VERSION,
+          config,
+        },
+      );
     }
+  }
 
-    const currentDir = path.dirname(currentFile);
-    const resolvedPath = path.resolve(currentDir, importSpecifier);
-    return /\.[^/.]+$/.test(resolvedPath) ? resolvedPath : `${resolvedPath}.ts`;
+  /**
+   * Resolves an import of `importer` to the file to analyze, noting the
+   * specifiers that can't be resolved
+   */
+  private resolveImport(
+    specifier: string,
+    importer: string,
+  ): string | undefined {
+    const resolution = this.resolver.resolve(specifier, importer);
+    if (resolution?.kind === "unresolved") {
+      if (!this.state.unresolvedDependencies.has(specifier)) {
+        this.state.unresolvedDependencies.set(specifier, {
+          specifier,
+          importer,
+          reason: resolution.reason,
+        });
+      }
+      return undefined;
+    }
+    return resolution?.path;
   }
 
   private addFunctionCall(caller: string, callee: string) {
@@ -41,110 +899,1048 @@ export class TypeScriptAnalyzer {
       this.state.functionCalls.set(caller, new Set());
     }
     this.state.functionCalls.get(caller)?.add(callee);
+    if (!this.callers.has(callee)) this.callers.set(callee, new Set());
+    this.callers.get(callee)?.add(caller);
+    // Calls into functions found blocking by an earlier analysis
+    if (this.state.blockingFunctions.has(callee)) this.markAsBlocking(caller);
+  }
+
+  private addCallSite(filePath: string, offset: number, callee: string) {
+    if (!this.state.callSites.has(filePath)) {
+      this.state.callSites.set(filePath, new Map());
+    }
+    this.state.callSites.get(filePath)?.set(offset, callee);
+  }
+
+  private addCallbackSite(filePath: string, offset: number, callback: string) {
+    if (!this.state.callbackSites.has(filePath)) {
+      this.state.callbackSites.set(filePath, new Map());
+    }
+    this.state.callbackSites.get(filePath)?.set(offset, callback);
+  }
+
+  /** Records that `callback`, passed at `offset` in `filePath`, gets called */
+  private addInvokedCallback(
+    { caller, callback, file, offset }: Omit<
+      PassedCallback,
+      "callee" | "index"
+    >,
+  ) {
+    if (!this.state.invokedCallbacks.has(file)) {
+      this.state.invokedCallbacks.set(file, new Map());
+    }
+    this.state.invokedCallbacks.get(file)?.set(offset, callback);
+    if (caller) this.addFunctionCall(caller, callback);
+  }
+
+  private addBlockingCall(
+    filePath: string,
+    offset: number,
+    blockingCall: BlockingCall,
+  ) {
+    if (!this.state.blockingCalls.has(filePath)) {
+      this.state.blockingCalls.set(filePath, new Map());
+    }
+    this.state.blockingCalls.get(filePath)?.set(offset, blockingCall);
+  }
+
+  /**
+   * Queues `funcId` to be marked blocking by the next `propagateBlocking`,
+   * along with every function reaching it
+   */
+  private markAsBlocking(funcId: string) {
+    this.pending.push(funcId);
+  }
+
+  /**
+   * Propagates the blocking status of the queued functions to their callers
+   * through the reverse call index. Each function is visited at most once, so
+   * the pass is linear in the size of the call graph and terminates on
+   * cycles, and the result doesn't depend on the order calls were collected.
+   */
+  private propagateBlocking() {
+    // Passing a function to a local higher-order function calling it counts
+    // as calling it, once the higher-order function has been analyzed
+    this.passedCallbacks = this.passedCallbacks.filter((passed) => {
+      if (!this.state.functionLocations.has(passed.callee)) return true;
+      if (this.invokedParameters.get(passed.callee)?.includes(passed.index)) {
+        this.addInvokedCallback(passed);
+      }
+      return false;
+    });
+    for (let funcId = this.pending.pop(); funcId; funcId = this.pending.pop()) {
+      if (
+        this.state.blockingFunctions.has(funcId) ||
+        this.state.suppressedFunctions.has(funcId)
+      ) {
+        continue;
+      }
+      if (this.state.annotations.get(funcId)?.kind === "nonblocking") {
+        this.state.suppressedFunctions.add(funcId);
+        continue;
+      }
+      this.state.blockingFunctions.add(funcId);
+      for (const caller of this.callers.get(funcId) ?? []) {
+        this.pending.push(caller);
+      }
+    }
   }
 
-  private markAsBlocking(funcName: string, visited = new Set<string>()) {
-    if (visited.has(funcName)) {
-      return;
+  /**
+   * Summarizes function `fn` declared by `node`: its location, whether it is
+   * async and its `@blocking`/`@nonblocking` tag.
+   */
+  private functionSummary(
+    id: string,
+    node: ts.Node,
+    fn: FunctionLike,
+  ): FunctionSummary {
+    const tag = ts.getJSDocTags(node).find((tag) =>
+      tag.tagName.text === "blocking" || tag.tagName.text === "nonblocking"
+    );
+    return {
+      id,
+      location: locationOf(node),
+      end: endOf(node),
+      async: hasModifier(fn, ts.SyntaxKind.AsyncKeyword),
+      annotation: tag && {
+        kind: tag.tagName.text as Annotation["kind"],
+        reason: ts.getTextOfJSDocComment(tag.comment)?.trim() || undefined,
+        location: locationOf(tag),
+        range: [tag.getStart(), tag.end],
+      },
+    };
+  }
+
+  private qualifiedId(
+    filePath: string,
+    node: ts.Node,
+    name: string,
+  ): string {
+    return `${filePath}#${[...containerNames(node), name].join(".")}`;
+  }
+
+  /**
+   * Returns the ID of a function and the node declaring it: function values
+   * are declared by the binding holding them. Anonymous functions are named
+   * after their position.
+   */
+  private functionDeclaration(
+    node: FunctionLike,
+    filePath: string,
+  ): { id: string; declaration: ts.Node } {
+    const holder = node.parent;
+    const declaration = ts.isVariableDeclaration(holder) ||
+        ts.isExportAssignment(holder) || ts.isPropertyDeclaration(holder) ||
+        ts.isPropertyAssignment(holder)
+      ? holder
+      : node;
+    const name = ts.isVariableDeclaration(declaration)
+      ? (ts.isIdentifier(declaration.name) ? declaration.name.text : undefined)
+      : functionName(node);
+    const { line, column } = locationOf(node);
+    const id = this.qualifiedId(
+      filePath,
+      declaration,
+      name ?? `<anonymous@${line}:${column}>`,
+    );
+    return { id, declaration };
+  }
+
+  /** Functions passed as arguments of `call` */
+  private callbackRefs(
+    call: ts.CallExpression | ts.NewExpression,
+    filePath: string,
+  ): CallbackSummary[] {
+    const callbacks: CallbackSummary[] = [];
+    for (const [index, argument] of (call.arguments ?? []).entries()) {
+      const ref = isFunctionLike(argument)
+        ? {
+          kind: "declaration" as const,
+          id: this.functionDeclaration(argument, filePath).id,
+        }
+        : this.resolveWithChecker(argument) ??
+          this.calleeRef(argument, filePath);
+      if (ref) callbacks.push({ index, offset: argument.getStart(), ref });
     }
+    return callbacks;
+  }
 
-    visited.add(funcName);
-    this.state.blockingFunctions.add(funcName);
+  /**
+   * Collects a module's import bindings and exports from its top-level
+   * statements into `summary`.
+   */
+  private summarizeImportsAndExports(
+    sourceFile: ts.SourceFile,
+    summary: ModuleSummary,
+  ) {
+    const filePath = summary.path;
+    const specifierOf = (specifier: ts.Expression | undefined) =>
+      specifier && ts.isStringLiteral(specifier) ? specifier.text : undefined;
 
-    for (const [caller, callees] of this.state.functionCalls.entries()) {
-      if (callees.has(funcName)) {
-        this.markAsBlocking(caller, visited);
-        if (!this.state.functionLocations.has(caller)) {
-          const location = this.state.functionLocations.get(funcName);
-          if (location) {
-            this.state.functionLocations.set(caller, location);
+    for (const statement of sourceFile.statements) {
+      if (ts.isImportDeclaration(statement)) {
+        const specifier = specifierOf(statement.moduleSpecifier);
+        const clause = statement.importClause;
+        if (specifier === undefined) continue;
+        summary.dependencies.push(specifier);
+        if (!clause || clause.isTypeOnly) continue;
+        if (clause.name) {
+          summary.imports.push([clause.name.text, {
+            specifier,
+            name: "default",
+          }]);
+        }
+        const namedBindings = clause.namedBindings;
+        if (namedBindings && ts.isNamespaceImport(namedBindings)) {
+          summary.imports.push([namedBindings.name.text, {
+            specifier,
+            name: "*",
+          }]);
+        } else if (namedBindings) {
+          for (const element of namedBindings.elements) {
+            summary.imports.push([element.name.text, {
+              specifier,
+              name: (element.propertyName ?? element.name).text,
+            }]);
+          }
+        }
+      } else if (ts.isExportDeclaration(statement)) {
+        const specifier = specifierOf(statement.moduleSpecifier);
+        const clause = statement.exportClause;
+        if (specifier !== undefined) summary.dependencies.push(specifier);
+        if (statement.moduleSpecifier && specifier === undefined) continue;
+        if (!clause) {
+          if (specifier !== undefined) summary.starExports.push(specifier);
+        } else if (ts.isNamespaceExport(clause)) {
+          if (specifier !== undefined) {
+            summary.exports.push([clause.name.text, {
+              kind: "reexport",
+              specifier,
+              name: "*",
+            }]);
+          }
+        } else {
+          for (const element of clause.elements) {
+            const name = (element.propertyName ?? element.name).text;
+            summary.exports.push([
+              element.name.text,
+              specifier !== undefined
+                ? { kind: "reexport", specifier, name }
+                : {
+                  kind: "local",
+                  ref: this.localRef(name, element, filePath),
+                },
+            ]);
+          }
+        }
+      } else if (ts.isExportAssignment(statement)) {
+        if (statement.isExportEquals) continue;
+        const expr = statement.expression;
+        summary.exports.push([
+          "default",
+          ts.isIdentifier(expr)
+            ? {
+              kind: "local",
+              ref: this.localRef(expr.text, statement, filePath),
+            }
+            : { kind: "declaration", id: `${filePath}#default` },
+        ]);
+      } else if (hasModifier(statement, ts.SyntaxKind.ExportKeyword)) {
+        if (
+          ts.isFunctionDeclaration(statement) ||
+          ts.isClassDeclaration(statement)
+        ) {
+          const name = statement.name?.text ?? "default";
+          const exportedName =
+            hasModifier(statement, ts.SyntaxKind.DefaultKeyword)
+              ? "default"
+              : name;
+          summary.exports.push([exportedName, {
+            kind: "declaration",
+            id: this.qualifiedId(filePath, statement, name),
+          }]);
+        } else if (ts.isVariableStatement(statement)) {
+          for (const declaration of statement.declarationList.declarations) {
+            if (!ts.isIdentifier(declaration.name)) continue;
+            const name = declaration.name.text;
+            summary.exports.push([name, {
+              kind: "declaration",
+              id: this.qualifiedId(filePath, declaration, name),
+            }]);
           }
         }
       }
     }
   }
 
-  private analyzeSourceFile(
-    sourceFile: ts.SourceFile,
+  /** Resolves the specifiers of a module summary to the modules they import */
+  private linkModule(summary: ModuleSummary): ModuleInfo {
+    const module: ModuleInfo = {
+      path: summary.path,
+      summary,
+      dependencies: new Set(),
+      imports: new Map(),
+      exports: new Map(),
+      starExports: [],
+    };
+    const resolved = new Map<string, string | undefined>();
+    for (const specifier of summary.dependencies) {
+      const pkg = this.resolver.packageOf(specifier, summary.path);
+      const known = pkg !== undefined && pkg in this.blockingExports;
+      // Known packages missing from the cache are only looked up in their
+      // blocking exports, rather than noted as unresolved
+      const resolution = known
+        ? this.resolver.resolve(specifier, summary.path)
+        : undefined;
+      const dependency = known
+        ? (resolution?.kind === "file" ? resolution.path : undefined)
+        : this.resolveImport(specifier, summary.path);
+      resolved.set(specifier, dependency ?? (known ? pkg : undefined));
+      if (dependency) module.dependencies.add(dependency);
+      if (dependency && known) this.packageEntries.set(dependency, pkg);
+    }
+
+    for (const [local, { specifier, name }] of summary.imports) {
+      const source = resolved.get(specifier) ?? nodeModuleName(specifier);
+      if (source) module.imports.set(local, { module: source, name });
+    }
+    for (const [name, entry] of summary.exports) {
+      if (entry.kind !== "reexport") {
+        module.exports.set(name, entry);
+        continue;
+      }
+      const source = resolved.get(entry.specifier);
+      if (source) {
+        module.exports.set(name, {
+          kind: "reexport",
+          module: source,
+          name: entry.name,
+        });
+      }
+    }
+    for (const specifier of summary.starExports) {
+      const source = resolved.get(specifier);
+      if (source) module.starExports.push(source);
+    }
+    return module;
+  }
+
+  /**
+   * Follows an exported name of `modulePath` through aliases and
+   * (multi-hop) re-exports to the declaration it refers to.
+   */
+  private resolveExport(
+    modulePath: string,
+    name: string,
+    visited = new Set<string>(),
+  ): Binding | undefined {
+    if (name === "*") {
+      return { kind: "namespace", module: modulePath };
+    }
+    if (
+      NODE_SYNC_MODULES.has(modulePath) || modulePath in this.blockingExports
+    ) {
+      return name === "default"
+        ? { kind: "namespace", module: modulePath }
+        : { kind: "external", module: modulePath, name };
+    }
+    // Blocking exports of known packages take precedence over their analysis
+    const pkg = this.packageEntries.get(modulePath);
+    if (pkg && this.blockingExports[pkg][name] !== undefined) {
+      return { kind: "external", module: pkg, name };
+    }
+    const key = `${modulePath}#${name}`;
+    const module = this.modules.get(modulePath);
+    if (!module || visited.has(key)) {
+      return undefined;
+    }
+    visited.add(key);
+
+    const entry = module.exports.get(name);
+    if (entry?.kind === "declaration") {
+      return { kind: "declaration", id: entry.id };
+    }
+    if (entry?.kind === "local") {
+      return this.resolveRef(entry.ref, module, visited);
+    }
+    if (entry?.kind === "reexport") {
+      return this.resolveExport(entry.module, entry.name, visited);
+    }
+    if (name === "default") {
+      return undefined;
+    }
+    for (const starExport of module.starExports) {
+      const binding = this.resolveExport(starExport, name, visited);
+      if (binding) return binding;
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves a local reference of `module`, following imports to the
+   * declaration or external binding they refer to.
+   */
+  private resolveRef(
+    ref: LocalRef | undefined,
+    module: ModuleInfo,
+    visited = new Set<string>(),
+  ): Binding | undefined {
+    if (ref?.kind !== "import") return ref;
+    const imported = module.imports.get(ref.name);
+    let binding = imported &&
+      this.resolveExport(imported.module, imported.name, visited);
+    for (const member of ref.members) {
+      if (binding?.kind === "namespace") {
+        binding = this.resolveExport(binding.module, member);
+      } else if (binding?.kind === "declaration") {
+        binding = { kind: "declaration", id: `${binding.id}.${member}` };
+      } else {
+        return undefined;
+      }
+    }
+    return binding;
+  }
+
+  /**
+   * Resolves `name` through the scopes enclosing `from`. Names not declared
+   * in the file refer to its imports; returns undefined when the binding is
+   * shadowed by something the analyzer can't follow (parameters, other
+   * variables).
+   */
+  private localRef(
+    name: string,
+    from: ts.Node,
     filePath: string,
-    _visited: Set<string>,
-  ): Set<string> {
-    const blockingFuncs = new Set<string>();
-    let currentFunction: string | undefined;
+  ): LocalRef | undefined {
+    const declaration = lookupDeclaration(name, from);
+    if (!declaration) {
+      return { kind: "import", name, members: [] };
+    }
+    if (
+      ts.isFunctionDeclaration(declaration) ||
+      ts.isClassDeclaration(declaration)
+    ) {
+      return {
+        kind: "declaration",
+        id: this.qualifiedId(filePath, declaration, name),
+      };
+    }
+    const instanceClass = instanceClassOf(declaration);
+    if (
+      instanceClass &&
+      !(ts.isIdentifier(instanceClass) && instanceClass.text === name)
+    ) {
+      return this.calleeRef(instanceClass, filePath);
+    }
+    const initializer = ts.isVariableDeclaration(declaration)
+      ? declaration.initializer
+      : undefined;
+    if (
+      initializer &&
+      (ts.isFunctionExpression(initializer) ||
+        ts.isArrowFunction(initializer) ||
+        ts.isObjectLiteralExpression(initializer))
+    ) {
+      return {
+        kind: "declaration",
+        id: this.qualifiedId(filePath, declaration, name),
+      };
+    }
+    return undefined;
+  }
 
-    const visit = (node: ts.Node) => {
-      if (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) {
-        if (node.name && ts.isIdentifier(node.name)) {
-          currentFunction = node.name.text;
-          const { line, character } = sourceFile.getLineAndCharacterOfPosition(
-            node.getStart(),
+  /**
+   * Returns the program's source file for `filePath`, rebuilding the program
+   * with `filePath` as an additional root when it isn't part of it yet.
+   */
+  private programSourceFile(filePath: string): ts.SourceFile | undefined {
+    this.addProgramRoots([filePath]);
+    return this.program?.getSourceFile(filePath);
+  }
+
+  /** Rebuilds the program once for all of `filePaths` it doesn't contain */
+  private addProgramRoots(filePaths: string[]) {
+    const missing = filePaths.filter((filePath) =>
+      !this.program?.getSourceFile(filePath)
+    );
+    if (missing.length === 0) return;
+    this.rootNames.push(...missing);
+    const host = ts.createCompilerHost(TYPED_COMPILER_OPTIONS);
+    const readFile = host.readFile;
+    host.readFile = (fileName) =>
+      this.sources.get(fileName) ?? readFile(fileName);
+    this.program = ts.createProgram({
+      rootNames: this.rootNames,
+      options: TYPED_COMPILER_OPTIONS,
+      host,
+      oldProgram: this.program,
+    });
+    this.checker = this.program.getTypeChecker();
+  }
+
+  /** The declaration the checker binds `node` to, following import aliases */
+  private declarationOf(node: ts.Node): ts.Declaration | undefined {
+    let symbol = this.checker?.getSymbolAtLocation(node);
+    if (symbol && symbol.flags & ts.SymbolFlags.Alias) {
+      symbol = this.checker?.getAliasedSymbol(symbol);
+    }
+    return symbol?.valueDeclaration ?? symbol?.declarations?.[0];
+  }
+
+  /**
+   * Resolves a callee through the type checker, which also covers method
+   * calls on typed values and calls through interfaces.
+   */
+  private resolveWithChecker(expr: ts.Expression): LocalRef | undefined {
+    const declaration = this.declarationOf(
+      ts.isPropertyAccessExpression(expr) ? expr.name : expr,
+    );
+    if (!declaration || declaration.getSourceFile().isDeclarationFile) {
+      return undefined;
+    }
+    const name = declarationName(declaration);
+    return name === undefined ? undefined : {
+      kind: "declaration",
+      id: this.qualifiedId(
+        declaration.getSourceFile().fileName,
+        declaration,
+        name,
+      ),
+    };
+  }
+
+  /** Whether `expr` refers to the `Deno` namespace, directly or through aliases */
+  private isDenoReference(
+    expr: ts.Expression,
+    seen = new Set<ts.Node>(),
+  ): boolean {
+    if (!ts.isIdentifier(expr)) return false;
+    const declaration = this.declarationOf(expr);
+    if (!declaration || declaration.getSourceFile().isDeclarationFile) {
+      return expr.text === "Deno";
+    }
+    if (
+      ts.isVariableDeclaration(declaration) && declaration.initializer &&
+      !seen.has(declaration)
+    ) {
+      seen.add(declaration);
+      return this.isDenoReference(declaration.initializer, seen);
+    }
+    return false;
+  }
+
+  /**
+   * Detects `Deno.*Sync` calls made through aliases such as `const D = Deno`
+   * or `const { readFileSync } = Deno`.
+   */
+  private aliasedDenoSyncCall(expr: ts.Expression): BlockingCall | undefined {
+    if (!this.checker) return undefined;
+    let name: string | undefined;
+    if (
+      ts.isPropertyAccessExpression(expr) &&
+      this.isDenoReference(expr.expression)
+    ) {
+      name = expr.name.text;
+    } else if (ts.isIdentifier(expr)) {
+      const declaration = this.declarationOf(expr);
+      const pattern = declaration?.parent;
+      if (
+        declaration && ts.isBindingElement(declaration) &&
+        pattern && ts.isObjectBindingPattern(pattern) &&
+        ts.isVariableDeclaration(pattern.parent) &&
+        pattern.parent.initializer &&
+        this.isDenoReference(pattern.parent.initializer)
+      ) {
+        name = declaration.propertyName
+          ? propertyNameText(declaration.propertyName)
+          : ts.isIdentifier(declaration.name)
+          ? declaration.name.text
+          : undefined;
+      }
+    }
+    return name?.endsWith("Sync") ? { module: "Deno", name } : undefined;
+  }
+
+  /**
+   * Returns the blocking API an export of a module the analyzer doesn't
+   * analyze is: the `*Sync` APIs of Node modules and the blocking exports of
+   * known packages
+   */
+  private externalBlockingCall(
+    binding: Binding | undefined,
+  ): BlockingCall | undefined {
+    if (binding?.kind !== "external") return undefined;
+    const { module, name } = binding;
+    if (NODE_SYNC_MODULES.has(module) && name.endsWith("Sync")) {
+      return { module, name };
+    }
+    const replacement = this.blockingExports[module]?.[name];
+    if (replacement !== undefined) {
+      return replacement === null
+        ? { module, name }
+        : { module, name, replacement };
+    }
+    return undefined;
+  }
+
+  /** Treats calls matching the configured `blockingApis` as blocking */
+  private configuredBlockingCall(
+    name: string | undefined,
+  ): BlockingCall | undefined {
+    return name !== undefined &&
+        matchesApi(name, this.options.blockingApis ?? [])
+      ? { name }
+      : undefined;
+  }
+
+  /**
+   * Whether a call is allowlisted, by its callee name, the blocking API it
+   * reaches or the function it resolves to.
+   */
+  private isAllowedCall(
+    name: string | undefined,
+    blockingCall: BlockingCall | undefined,
+    binding: Binding | undefined,
+  ): boolean {
+    return [
+      name,
+      blockingCall && blockingCallLabel(blockingCall),
+      binding?.kind === "declaration"
+        ? functionDisplayName(binding.id)
+        : undefined,
+    ].some((candidate) => candidate !== undefined && this.isAllowed(candidate));
+  }
+
+  /** Links interface members to the members of `node` implementing them */
+  private summarizeImplementations(
+    node: ts.ClassLikeDeclaration,
+    summary: ModuleSummary,
+  ) {
+    const implementsClauses =
+      node.heritageClauses?.filter((clause) =>
+        clause.token === ts.SyntaxKind.ImplementsKeyword
+      ) ?? [];
+    for (const clause of implementsClauses) {
+      for (const type of clause.types) {
+        const declaration = this.declarationOf(type.expression);
+        if (
+          !declaration || !ts.isInterfaceDeclaration(declaration) ||
+          declaration.getSourceFile().isDeclarationFile
+        ) {
+          continue;
+        }
+        for (const member of declaration.members) {
+          const name = member.name && propertyNameText(member.name);
+          const implementation = node.members.find((candidate) =>
+            candidate.name && propertyNameText(candidate.name) === name
           );
-          this.state.functionLocations.set(node.name.text, {
-            file: filePath,
-            line: line + 1,
-            column: character + 1,
+          if (name === undefined || !implementation) continue;
+          summary.implementations.push({
+            member: this.qualifiedId(
+              declaration.getSourceFile().fileName,
+              member,
+              name,
+            ),
+            location: locationOf(member),
+            implementation: this.qualifiedId(
+              summary.path,
+              implementation,
+              name,
+            ),
           });
         }
+      }
+    }
+  }
+
+  /** Qualified ID of the class or object literal `this` refers to at `from` */
+  private resolveThis(from: ts.Node, filePath: string): string | undefined {
+    for (let current = from.parent; current; current = current.parent) {
+      if (ts.isClassLike(current)) {
+        const name = className(current);
+        return name ? this.qualifiedId(filePath, current, name) : undefined;
+      }
+      if (ts.isObjectLiteralExpression(current)) {
+        const name = objectLiteralName(current);
+        return name ? this.qualifiedId(filePath, current, name) : undefined;
+      }
+      if (
+        ts.isFunctionDeclaration(current) || ts.isFunctionExpression(current)
+      ) {
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  /** Resolves the callee of a call expression within its module */
+  private calleeRef(
+    expr: ts.Expression,
+    filePath: string,
+  ): LocalRef | undefined {
+    if (ts.isIdentifier(expr)) {
+      return this.localRef(expr.text, expr, filePath);
+    }
+    if (expr.kind === ts.SyntaxKind.SuperKeyword) {
+      return memberRef(this.superclassRef(expr, filePath), "constructor");
+    }
+    if (ts.isPropertyAccessExpression(expr)) {
+      const receiver = expr.expression;
+      let owner: LocalRef | undefined;
+      if (receiver.kind === ts.SyntaxKind.ThisKeyword) {
+        const id = this.resolveThis(expr, filePath);
+        owner = id ? { kind: "declaration", id } : undefined;
+      } else if (receiver.kind === ts.SyntaxKind.SuperKeyword) {
+        owner = this.superclassRef(expr, filePath);
       } else if (
-        ts.isVariableDeclaration(node) &&
-        ts.isIdentifier(node.name) &&
-        node.initializer &&
-        (ts.isFunctionExpression(node.initializer) ||
-          ts.isArrowFunction(node.initializer))
+        ts.isIdentifier(receiver) || ts.isPropertyAccessExpression(receiver)
       ) {
-        currentFunction = node.name.text;
-        const { line, character } = sourceFile.getLineAndCharacterOfPosition(
-          node.getStart(),
-        );
-        this.state.functionLocations.set(node.name.text, {
-          file: filePath,
-          line: line + 1,
-          column: character + 1,
+        owner = this.calleeRef(receiver, filePath);
+      }
+      return memberRef(owner, expr.name.text);
+    }
+    return undefined;
+  }
+
+  /** Resolves the class extended by the class enclosing `from` */
+  private superclassRef(
+    from: ts.Node,
+    filePath: string,
+  ): LocalRef | undefined {
+    for (let current = from.parent; current; current = current.parent) {
+      if (ts.isClassLike(current)) {
+        const superclass = superclassOf(current);
+        return superclass && this.calleeRef(superclass, filePath);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Extracts the summary of a module from its syntax tree. In typed mode the
+   * checker's bindings are part of the summary.
+   */
+  private summarizeModule(
+    sourceFile: ts.SourceFile,
+    stamp: string,
+  ): ModuleSummary {
+    const filePath = sourceFile.fileName;
+    const summary: ModuleSummary = {
+      path: filePath,
+      stamp,
+      dependencies: [],
+      imports: [],
+      exports: [],
+      starExports: [],
+      functions: [],
+      calls: [],
+      superclasses: [],
+      implementations: [],
+    };
+    this.summarizeImportsAndExports(sourceFile, summary);
+    // IDs of the functions enclosing the node being visited, innermost last
+    const scopes: string[] = [];
+    const functions = new Map<string, FunctionSummary>();
+
+    /**
+     * Adds the summary of a function, merging it into the one with the same
+     * ID, e.g. a constructor and the property initializers running in it
+     */
+    const addFunction = (fn: FunctionSummary) => {
+      const existing = functions.get(fn.id);
+      if (!existing) {
+        functions.set(fn.id, fn);
+        summary.functions.push(fn);
+        return;
+      }
+      if (comparePositions(fn.location, existing.location) < 0) {
+        existing.location = fn.location;
+      }
+      if (comparePositions(existing.end, fn.end) < 0) existing.end = fn.end;
+      existing.async ||= fn.async;
+      existing.annotation ??= fn.annotation;
+    };
+
+    const enterScope = (node: ts.Node): boolean => {
+      if (isFunctionLike(node)) {
+        const { id, declaration } = this.functionDeclaration(node, filePath);
+        scopes.push(id);
+        addFunction(this.functionSummary(id, declaration, node));
+        return true;
+      }
+
+      // Property initializers run in the constructor, static ones and
+      // static blocks once, when the class is defined
+      const initializer = ts.isPropertyDeclaration(node) &&
+        node.initializer && !isFunctionLike(node.initializer);
+      if (initializer || ts.isClassStaticBlockDeclaration(node)) {
+        const name = ts.isClassStaticBlockDeclaration(node) ||
+            hasModifier(node, ts.SyntaxKind.StaticKeyword)
+          ? "<static>"
+          : "constructor";
+        const id = this.qualifiedId(filePath, node, name);
+        scopes.push(id);
+        // The scope spans the class from its first initializer
+        addFunction({
+          id,
+          location: locationOf(node),
+          end: endOf(node.parent),
+          async: false,
         });
+        return true;
       }
+      return false;
+    };
 
-      if (currentFunction) {
-        if (ts.isCallExpression(node)) {
-          const expr = node.expression;
-          if (
-            ts.isPropertyAccessExpression(expr) &&
-            ts.isIdentifier(expr.expression) &&
-            expr.expression.text === "Deno" &&
-            ts.isIdentifier(expr.name) &&
-            expr.name.text.endsWith("Sync")
-          ) {
-            blockingFuncs.add(currentFunction);
-            this.markAsBlocking(currentFunction);
-          } else if (ts.isIdentifier(expr)) {
-            this.addFunctionCall(currentFunction, expr.text);
-            if (this.state.blockingFunctions.has(expr.text)) {
-              this.markAsBlocking(currentFunction);
-            }
-          } else if (
-            ts.isPropertyAccessExpression(expr) && ts.isIdentifier(expr.name)
-          ) {
-            this.addFunctionCall(currentFunction, expr.name.text);
-          }
+    const visit = (node: ts.Node) => {
+      const scoped = enterScope(node);
+
+      if (ts.isClassLike(node)) {
+        if (this.checker) this.summarizeImplementations(node, summary);
+        const name = className(node);
+        const superclass = superclassOf(node);
+        const ref = superclass &&
+          (this.resolveWithChecker(superclass) ??
+            this.calleeRef(superclass, filePath));
+        if (name !== undefined && ref) {
+          summary.superclasses.push([
+            this.qualifiedId(filePath, node, name),
+            ref,
+          ]);
         }
       }
 
-      ts.forEachChild(node, visit);
+      if (ts.isNewExpression(node)) {
+        summary.calls.push({
+          caller: scopes.at(-1),
+          offset: node.getEnd(),
+          location: locationOf(node),
+          name: calleeName(node.expression),
+          callee: memberRef(
+            this.resolveWithChecker(node.expression) ??
+              this.calleeRef(node.expression, filePath),
+            "constructor",
+          ),
+        });
+        const callbacks = this.callbackRefs(node, filePath);
+        if (callbacks.length > 0) {
+          const call = summary.calls[summary.calls.length - 1];
+          call.callbacks = callbacks;
+          call.invokedArguments = invokedArgumentsOf(node);
+        }
+      }
 
-      if (
-        (ts.isFunctionDeclaration(node) || ts.isMethodDeclaration(node)) &&
-        node.name
-      ) {
-        currentFunction = undefined;
+      if (ts.isCallExpression(node)) {
+        summary.calls.push({
+          caller: scopes.at(-1),
+          offset: node.getEnd(),
+          location: locationOf(node),
+          name: calleeName(node.expression),
+          callee: this.resolveWithChecker(node.expression) ??
+            this.calleeRef(node.expression, filePath),
+          blockingCall: blockingCallOf(node.expression) ??
+            this.aliasedDenoSyncCall(node.expression),
+        });
+        const callbacks = this.callbackRefs(node, filePath);
+        if (callbacks.length > 0) {
+          const call = summary.calls[summary.calls.length - 1];
+          call.callbacks = callbacks;
+          call.entryPoint = entryPointApi(
+            calleeName(node.expression),
+            ts.isPropertyAccessExpression(node.expression)
+              ? node.expression.name.text
+              : undefined,
+          );
+          call.invokedArguments = invokedArgumentsOf(node);
+        }
+
+        // Calls of a parameter make the function a higher-order one
+        const parameter = ts.isIdentifier(node.expression)
+          ? lookupDeclaration(node.expression.text, node.expression)
+          : undefined;
+        if (
+          parameter && ts.isParameter(parameter) &&
+          isFunctionLike(parameter.parent)
+        ) {
+          const owner = this.functionDeclaration(parameter.parent, filePath).id;
+          const fn = functions.get(owner);
+          const index = parameter.parent.parameters.indexOf(parameter);
+          if (owner === scopes.at(-1) && fn) {
+            fn.invokedParameters = [...fn.invokedParameters ?? [], index];
+          }
+        }
       }
+
+      ts.forEachChild(node, visit);
+      if (scoped) scopes.pop();
     };
 
     ts.forEachChild(sourceFile, visit);
+    return summary;
+  }
+
+  /**
+   * Returns the summary of the module at `filePath`. In syntax mode it comes
+   * from `summaryCache` or the summary store unless the file changed since it
+   * was computed or `setSource` gave it other content. Typed summaries depend
+   * on the whole program and aren't reused.
+   */
+  private summaryOf(filePath: string): ModuleSummary {
+    const { mtime, size } = Deno.statSync(filePath);
+    const stamp = `${mtime?.getTime()}:${size}`;
+    const source = this.sources.get(filePath);
+    const unsaved = source !== undefined &&
+      source !== Deno.readTextFileSync(filePath);
+    const reusable = !this.options.typed && mtime !== null && !unsaved;
+    if (reusable) {
+      const cached = summaryCache.get(filePath);
+      if (cached?.stamp === stamp) return cached;
+      const stored = this.store?.read(filePath, stamp);
+      if (stored) {
+        summaryCache.set(filePath, stored);
+        return stored;
+      }
+    }
+
+    const sourceFile = (this.options.typed &&
+      this.programSourceFile(filePath)) ||
+      ts.createSourceFile(
+        filePath,
+        source ?? Deno.readTextFileSync(filePath),
+        ts.ScriptTarget.Latest,
+        true,
+      );
+    const summary = this.summarizeModule(sourceFile, stamp);
+    if (reusable) {
+      summaryCache.set(filePath, summary);
+      this.store?.write(filePath, stamp, summary);
+    }
+    return summary;
+  }
+
+  /**
+   * Resolves the member `id` (e.g. `/src/repo.ts#Repo.load`) to the function
+   * implementing it, looking it up in the superclasses of its class
+   */
+  private inheritedMember(id: string): string {
+    const seen = new Set<string>();
+    let current = id;
+    while (!this.state.functionLocations.has(current)) {
+      const separator = current.lastIndexOf(".");
+      if (separator < current.indexOf("#", current.lastIndexOf("/"))) break;
+      const superclass = this.superclasses.get(current.slice(0, separator));
+      if (!superclass || seen.has(superclass)) break;
+      seen.add(superclass);
+      current = `${superclass}${current.slice(separator)}`;
+    }
+    return this.state.functionLocations.has(current) ? current : id;
+  }
+
+  /**
+   * Records the functions and calls of a linked module in the analyzer
+   * state, queueing the functions making blocking calls for propagation.
+   */
+  private analyzeModule(module: ModuleInfo): Set<string> {
+    const { summary, path: filePath } = module;
+    const blockingFuncs = new Set<string>();
+
+    this.fileFunctions.set(filePath, summary.functions);
+    for (const fn of summary.functions) {
+      this.state.functionLocations.set(fn.id, fn.location);
+      if (fn.async) this.state.asyncFunctions.add(fn.id);
+      if (fn.annotation) this.state.annotations.set(fn.id, fn.annotation);
+      if (fn.invokedParameters) {
+        this.invokedParameters.set(fn.id, fn.invokedParameters);
+      }
+    }
+    for (
+      const { member, location, implementation } of summary.implementations
+    ) {
+      this.state.functionLocations.set(member, location);
+      this.addFunctionCall(member, implementation);
+    }
+    for (const fn of summary.functions) {
+      if (fn.annotation?.kind === "blocking") this.markAsBlocking(fn.id);
+    }
+    for (const [id, ref] of summary.superclasses) {
+      const superclass = this.resolveRef(ref, module);
+      if (superclass?.kind !== "declaration") continue;
+      this.superclasses.set(id, superclass.id);
+      // Constructors call the constructor of their superclass
+      const constructor = `${id}.constructor`;
+      if (this.state.functionLocations.has(constructor)) {
+        this.addFunctionCall(
+          constructor,
+          this.inheritedMember(`${superclass.id}.constructor`),
+        );
+      }
+    }
+
+    for (const call of summary.calls) {
+      const { caller, offset } = call;
+      const binding = this.resolveRef(call.callee, module);
+      const blockingCall = call.blockingCall ??
+        this.externalBlockingCall(binding) ??
+        this.configuredBlockingCall(call.name);
+      const allowed = this.isAllowedCall(call.name, blockingCall, binding);
+      const callee = binding?.kind === "declaration"
+        ? this.inheritedMember(binding.id)
+        : undefined;
+      if (blockingCall && !allowed) {
+        this.addBlockingCall(filePath, offset, blockingCall);
+        if (caller) {
+          if (!this.state.rootCalls.has(caller)) {
+            this.state.rootCalls.set(caller, {
+              call: blockingCall,
+              location: call.location,
+            });
+          }
+          blockingFuncs.add(caller);
+          this.markAsBlocking(caller);
+        }
+      } else if (!allowed && callee) {
+        if (caller) this.addFunctionCall(caller, callee);
+        this.addCallSite(filePath, offset, callee);
+      }
+
+      for (
+        const { index, offset: argumentOffset, ref } of call.callbacks ?? []
+      ) {
+        const callbackBinding = this.resolveRef(ref, module);
+        if (callbackBinding?.kind !== "declaration") continue;
+        const callback = this.inheritedMember(callbackBinding.id);
+        this.addCallbackSite(filePath, argumentOffset, callback);
+        if (call.entryPoint && !this.state.entryPoints.has(callback)) {
+          this.state.entryPoints.set(callback, call.entryPoint);
+        }
+        const passed = {
+          caller,
+          callback,
+          file: filePath,
+          offset: argumentOffset,
+        };
+        if (call.invokedArguments?.includes(index)) {
+          this.addInvokedCallback(passed);
+        } else if (callee) {
+          this.passedCallbacks.push({ ...passed, callee, index });
+        }
+      }
+    }
     return blockingFuncs;
   }
 
-  analyzeFile(filePath: string, visited = new Set<string>()) {
+  /**
+   * Collects the functions and calls of `filePath` and of the modules it
+   * imports, returning the functions of the file making blocking calls
+   */
+  private collectFile(filePath: string, visited: Set<string>): Set<string> {
     const absolutePath = path.resolve(filePath);
 
+    if (this.isIgnored(absolutePath)) {
+      return new Set<string>();
+    }
+
     if (visited.has(absolutePath)) {
       return this.state.analyzedFiles.get(absolutePath) || new Set();
     }
@@ -152,31 +1948,16 @@ export class TypeScriptAnalyzer {
     visited.add(absolutePath);
 
     try {
-      const content = Deno.readTextFileSync(absolutePath);
-      const sourceFile = ts.createSourceFile(
-        absolutePath,
-        content,
-        ts.ScriptTarget.Latest,
-        true,
-      );
+      // Register the module before its dependencies so import cycles can
+      // still resolve bindings back into it
+      const module = this.linkModule(this.summaryOf(absolutePath));
+      this.modules.set(absolutePath, module);
 
-      const analyzeImports = (node: ts.Node) => {
-        if (ts.isImportDeclaration(node)) {
-          const source = node.moduleSpecifier.getText().replace(/['"]/g, "");
-          if (source.startsWith(".")) {
-            const importPath = this.normalizeImportPath(source, absolutePath);
-            this.analyzeFile(importPath, visited);
-          }
-        }
-      };
-
-      ts.forEachChild(sourceFile, analyzeImports);
+      for (const dependency of module.dependencies) {
+        this.collectFile(dependency, visited);
+      }
 
-      const blockingFuncs = this.analyzeSourceFile(
-        sourceFile,
-        absolutePath,
-        visited,
-      );
+      const blockingFuncs = this.analyzeModule(module);
       this.state.analyzedFiles.set(absolutePath, blockingFuncs);
       return blockingFuncs;
     } catch (error) {
@@ -189,8 +1970,187 @@ export class TypeScriptAnalyzer {
     }
   }
 
-  isBlockingFunction(name: string): boolean {
-    return this.state.blockingFunctions.has(name);
+  /**
+   * Analyzes `filePath` as holding `text` rather than its content on disk,
+   * e.g. an editor buffer with unsaved changes. Must be called before the
+   * file is analyzed.
+   */
+  setSource(filePath: string, text: string) {
+    this.sources.set(path.resolve(filePath), text);
+  }
+
+  analyzeFile(filePath: string, visited = new Set<string>()) {
+    const blockingFuncs = this.collectFile(filePath, visited);
+    this.propagateBlocking();
+    return blockingFuncs;
+  }
+
+  /**
+   * Analyzes several entry files, sharing the work on the modules they have
+   * in common.
+   */
+  analyzeFiles(filePaths: string[]) {
+    const absolutePaths = filePaths.map((filePath) => path.resolve(filePath));
+    if (this.options.typed) {
+      this.addProgramRoots(
+        absolutePaths.filter((filePath) => !this.isIgnored(filePath)),
+      );
+    }
+    const visited = new Set<string>();
+    for (const filePath of absolutePaths) {
+      this.collectFile(filePath, visited);
+    }
+    this.propagateBlocking();
+  }
+
+  /** Whether the call name `name` (e.g. `Deno.cwd`) is allowlisted */
+  isAllowed(name: string): boolean {
+    return matchesApi(name, this.options.allow ?? []);
+  }
+
+  /** Whether `filePath` is skipped through the `ignore` option */
+  isIgnored(filePath: string): boolean {
+    return isIgnoredPath(filePath, this.options);
+  }
+
+  isBlockingFunction(id: string): boolean {
+    return this.state.blockingFunctions.has(id);
+  }
+
+  /**
+   * Returns the qualified ID of the function called by the call expression
+   * ending at `offset` in `filePath`, if the analyzer could resolve it.
+   */
+  resolveCallAt(filePath: string, offset: number): string | undefined {
+    return this.state.callSites.get(path.resolve(filePath))?.get(offset);
+  }
+
+  /**
+   * Returns the qualified ID of the function passed as the argument starting
+   * at `offset` in `filePath`, if the analyzer could resolve it.
+   */
+  callbackAt(filePath: string, offset: number): string | undefined {
+    return this.state.callbackSites.get(path.resolve(filePath))?.get(offset);
+  }
+
+  /**
+   * Returns the qualified ID of the function passed as the argument starting
+   * at `offset` in `filePath`, if the function it is passed to calls it.
+   */
+  invokedCallbackAt(filePath: string, offset: number): string | undefined {
+    return this.state.invokedCallbacks.get(path.resolve(filePath))?.get(offset);
+  }
+
+  /**
+   * Returns the scheduling API (e.g. `setTimeout`) running the function `id`
+   * as an event-loop task, when the `entryPoints` option is enabled
+   */
+  entryPointOf(id: string): string | undefined {
+    return this.options.entryPoints
+      ? this.state.entryPoints.get(id)
+      : undefined;
+  }
+
+  /**
+   * Returns the ID of the innermost function declared around `line`:`column`
+   * in `filePath`, e.g. to attribute a stack frame to the function it is in
+   */
+  functionAt(
+    filePath: string,
+    line: number,
+    column: number,
+  ): string | undefined {
+    const position = { line, column };
+    let innermost: FunctionSummary | undefined;
+    for (const fn of this.fileFunctions.get(path.resolve(filePath)) ?? []) {
+      if (
+        comparePositions(fn.location, position) <= 0 &&
+        comparePositions(position, fn.end) < 0 &&
+        (!innermost || comparePositions(innermost.location, fn.location) <= 0)
+      ) {
+        innermost = fn;
+      }
+    }
+    return innermost?.id;
+  }
+
+  /** Returns the blocking API called by the call ending at `offset` */
+  blockingCallAt(filePath: string, offset: number): BlockingCall | undefined {
+    return this.state.blockingCalls.get(path.resolve(filePath))?.get(offset);
+  }
+
+  /**
+   * Returns the shortest call chain from the blocking function `id` to a
+   * blocking API call.
+   */
+  getBlockingChain(id: string): BlockingChain | undefined {
+    const previous = new Map<string, string>();
+    const queue = [id];
+    const visited = new Set(queue);
+    for (let current = queue.shift(); current; current = queue.shift()) {
+      const annotation = this.state.annotations.get(current);
+      const root = this.state.rootCalls.get(current) ??
+        (annotation?.kind === "blocking"
+          ? { call: { name: "@blocking" }, location: annotation.location }
+          : undefined);
+      if (root) {
+        const functions = [current];
+        for (
+          let step = previous.get(current);
+          step;
+          step = previous.get(step)
+        ) {
+          functions.unshift(step);
+        }
+        return { functions, root };
+      }
+      for (const callee of this.state.functionCalls.get(current) ?? []) {
+        if (visited.has(callee) || !this.isBlockingFunction(callee)) continue;
+        visited.add(callee);
+        previous.set(callee, current);
+        queue.push(callee);
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Returns the annotations that no longer match what the analyzer finds:
+   * `@nonblocking` functions that don't reach a blocking call anymore, and
+   * `@blocking` functions the analyzer finds blocking on its own.
+   */
+  getAnnotationWarnings(filePath?: string): AnnotationWarning[] {
+    const file = filePath && path.resolve(filePath);
+    const warnings: AnnotationWarning[] = [];
+    for (const [id, annotation] of this.state.annotations) {
+      if (file && annotation.location.file !== file) continue;
+      const name = functionDisplayName(id);
+      if (
+        annotation.kind === "nonblocking" &&
+        !this.state.suppressedFunctions.has(id)
+      ) {
+        warnings.push({
+          id,
+          annotation,
+          message:
+            `'${name}' is annotated @nonblocking but no longer reaches a blocking call`,
+        });
+      } else if (
+        annotation.kind === "blocking" &&
+        (this.state.rootCalls.has(id) ||
+          [...this.state.functionCalls.get(id) ?? []].some((callee) =>
+            this.isBlockingFunction(callee)
+          ))
+      ) {
+        warnings.push({
+          id,
+          annotation,
+          message:
+            `'${name}' is annotated @blocking but the analyzer already finds it blocking`,
+        });
+      }
+    }
+    return warnings;
   }
 
   getState(): AnalyzerState {
@@ -199,32 +2159,99 @@ export class TypeScriptAnalyzer {
 }
 
 if (import.meta.main) {
-  const analyzer = new TypeScriptAnalyzer();
-  const filePath = Deno.args[0];
-  if (!filePath) {
-    console.error("Please provide a file path to analyze");
-    Deno.exit(1);
+  const paths: string[] = [];
+  let configPath: string | undefined;
+  let summaryCacheDir: string | undefined;
+  let typed = false;
+  let entryPoints = false;
+  let asyncify: string | undefined;
+  let lagPath: string | undefined;
+  let write = false;
+  let format: ReportFormat = "text";
+  for (let i = 0; i < Deno.args.length; i++) {
+    const arg = Deno.args[i];
+    if (arg === "--typed") {
+      typed = true;
+    } else if (arg === "--entry-points") {
+      entryPoints = true;
+    } else if (arg === "--asyncify") {
+      asyncify = Deno.args[++i];
+      // Functions are given as `<file>#<name>`, e.g. `src/config.ts#loadConfig`
+      const separator = asyncify?.lastIndexOf("#") ?? -1;
+      if (separator <= 0 || separator === asyncify.length - 1) {
+        console.error(
+          `Invalid --asyncify target '${
+            asyncify ?? ""
+          }', expected <file>#<function>, e.g. src/config.ts#loadConfig`,
+        );
+        Deno.exit(2);
+      }
+    } else if (arg === "--lag") {
+      lagPath = Deno.args[++i];
+    } else if (arg === "--write") {
+      write = true;
+    } else if (arg === "--config") {
+      configPath = Deno.args[++i];
+    } else if (arg === "--summary-cache") {
+      summaryCacheDir = path.resolve(Deno.args[++i]);
+    } else if (arg === "--format" || arg.startsWith("--format=")) {
+      const value = arg === "--format" ? Deno.args[++i] : arg.slice(9);
+      if (!REPORT_FORMATS.includes(value as ReportFormat)) {
+        console.error(
+          `Unknown format '${value}', expected one of: ${
+            REPORT_FORMATS.join(", ")
+          }`,
+        );
+        Deno.exit(2);
+      }
+      format = value as ReportFormat;
+    } else {
+      paths.push(arg);
+    }
   }
 
-  analyzer.analyzeFile(filePath);
-  const state = analyzer.getState();
-  const blockingFunctions = [...state.blockingFunctions].sort();
+  const config = configPath
+    ? readConfigFile(configPath)
+    : loadDirectoryConfig(Deno.cwd());
+  const files = findSourceFiles(paths, config.root);
+  if (files.length === 0) {
+    console.error(
+      paths.length > 0
+        ? `No files to analyze found in: ${paths.join(", ")}`
+        : "Please provide files, directories or globs to analyze",
+    );
+    Deno.exit(2);
+  }
 
-  if (blockingFunctions.length > 0) {
-    console.log(
-      "\nWarning: Found blocking functions in the following locations:",
+  const analyzer = new TypeScriptAnalyzer({
+    ...config,
+    typed: typed || config.typed,
+    entryPoints: entryPoints || config.entryPoints,
+    summaryCacheDir: summaryCacheDir ?? config.summaryCacheDir,
+  });
+  analyzer.analyzeFiles(files);
+
+  if (asyncify) {
+    const separator = asyncify.lastIndexOf("#");
+    const plan = planAsyncify(
+      analyzer,
+      `${path.resolve(asyncify.slice(0, separator))}${
+        asyncify.slice(separator)
+      }`,
     );
-    blockingFunctions.forEach((func) => {
-      const location = state.functionLocations.get(func);
-      if (location) {
-        console.log(
-          `  - ${func} (in ${location.file}:${location.line}:${location.column})`,
-        );
-      } else {
-        console.log(`  - ${func} (in unknown location)`);
+    console.log(formatAsyncifyPlan(plan));
+    if (plan.refusals.length > 0) Deno.exit(1);
+    if (write) {
+      for (const [file, text] of editedFiles(plan)) {
+        Deno.writeTextFileSync(file, text);
       }
-    });
-  } else {
-    console.log("\nNo blocking functions found.");
+    }
+    Deno.exit(0);
   }
+
+  // A `LagMonitor` summary, see runtime.ts
+  const lag = lagPath ? JSON.parse(Deno.readTextFileSync(lagPath)) : undefined;
+  const report = buildReport(analyzer, lag);
+  console.log(formatReport(report, format, config.root));
+  if (hasFindings(report)) Deno.exit(1);
 }
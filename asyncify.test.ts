@@ -0,0 +1,125 @@
+import { assertEquals } from "jsr:@std/assert@1.0.11";
+import { TypeScriptAnalyzer } from "./analyzer.ts";
+import { editedFiles, planAsyncify } from "./asyncify.ts";
+import { withTempDir } from "./test_utils.ts";
+
+function analyzeProject(
+  files: Record<string, string>,
+  fn: (dir: string, analyzer: TypeScriptAnalyzer) => void,
+) {
+  withTempDir(files, (dir) => {
+    const analyzer = new TypeScriptAnalyzer();
+    analyzer.analyzeFiles(Object.keys(files).map((name) => `${dir}/${name}`));
+    fn(dir, analyzer);
+  });
+}
+
+Deno.test("planAsyncify makes a blocking function and its sync callers async", () => {
+  analyzeProject({
+    "config.ts": `export interface Config {
+  port: number;
+}
+
+function readConfigText(path: string): string {
+  return Deno.readTextFileSync(path);
+}
+
+export function loadConfig(path = "config.json"): Config {
+  return JSON.parse(readConfigText(path));
+}
+
+export const port = (): number => loadConfig().port;
+`,
+    "main.ts": `import { loadConfig, port } from "./config.ts";
+
+export async function serve() {
+  const config = await loadConfig();
+  Deno.serve({ port: port() }, () => new Response(String(config.port)));
+}
+`,
+  }, (dir, analyzer) => {
+    const plan = planAsyncify(analyzer, `${dir}/main.ts#serve`);
+
+    assertEquals(plan.target, `${dir}/config.ts#readConfigText`);
+    assertEquals(plan.functions, [
+      `${dir}/config.ts#readConfigText`,
+      `${dir}/config.ts#loadConfig`,
+      `${dir}/config.ts#port`,
+    ]);
+    assertEquals(plan.exported, [
+      `${dir}/config.ts#loadConfig`,
+      `${dir}/config.ts#port`,
+    ]);
+    assertEquals(plan.refusals, []);
+    assertEquals(
+      editedFiles(plan),
+      new Map([
+        [
+          `${dir}/config.ts`,
+          `export interface Config {
+  port: number;
+}
+
+async function readConfigText(path: string): Promise<string> {
+  return await Deno.readTextFile(path);
+}
+
+export async function loadConfig(path = "config.json"): Promise<Config> {
+  return JSON.parse(await readConfigText(path));
+}
+
+export const port = async (): Promise<number> => (await loadConfig()).port;
+`,
+        ],
+        [
+          `${dir}/main.ts`,
+          `import { loadConfig, port } from "./config.ts";
+
+export async function serve() {
+  const config = await loadConfig();
+  Deno.serve({ port: await port() }, () => new Response(String(config.port)));
+}
+`,
+        ],
+      ]),
+    );
+  });
+});
+
+Deno.test("planAsyncify refuses to change sync API contracts", () => {
+  analyzeProject({
+    "main.ts": `function load(path: string): string {
+  return Deno.readTextFileSync(path);
+}
+
+function list(path: string) {
+  return [...Deno.readDirSync(path)];
+}
+
+class Settings {
+  get text() {
+    return load("settings.json");
+  }
+}
+
+export async function main(paths: string[]) {
+  paths.map(load);
+  list(".");
+  new Settings().text;
+}
+`,
+  }, (dir, analyzer) => {
+    const file = `${dir}/main.ts`;
+
+    const plan = planAsyncify(analyzer, `${file}#load`);
+    assertEquals(plan.refusals, [
+      "Settings.text is an accessor, which can't be async",
+      `load is passed as a callback at ${file}:16:13, whose caller expects a sync result`,
+    ]);
+    assertEquals(plan.edits, []);
+
+    assertEquals(planAsyncify(analyzer, `${file}#list`).refusals, [
+      `Deno.readDirSync called by list at ${file}:6:14 has no async equivalent taking the same arguments`,
+    ]);
+  });
+});
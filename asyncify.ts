@@ -0,0 +1,426 @@
+// asyncify.ts
+import ts from "npm:typescript@5.7.2";
+import {
+  asyncEquivalent,
+  blockingCallLabel,
+  functionDisplayName,
+  type FunctionLike,
+  type FunctionLocation,
+  isFunctionLike,
+  type TypeScriptAnalyzer,
+} from "./analyzer.ts";
+
+/** Replacement of the text between `start` and `end` of `file` */
+export interface TextEdit {
+  file: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * The changes making a blocking function async: the function making the
+ * blocking call awaits its async equivalent, it and its sync callers up to
+ * the first async ones are made async, and every call to them is awaited.
+ */
+export interface AsyncifyPlan {
+  /** Function making the blocking API call, see `planAsyncify` */
+  target: string;
+  /** Functions made async, the target first */
+  functions: string[];
+  /**
+   * Functions of `functions` visible to other modules, whose callers are only
+   * all known when the whole project is analyzed
+   */
+  exported: string[];
+  /** Why the refactoring can't be done, empty when it can */
+  refusals: string[];
+  /** Edits making the change, empty when it is refused */
+  edits: TextEdit[];
+}
+
+/** A function of the plan and where it is declared */
+interface PlannedFunction {
+  id: string;
+  sourceFile: ts.SourceFile;
+  /** Node the function's ID and location come from */
+  declaration: ts.Node;
+  fn: FunctionLike;
+}
+
+function positionOf(sourceFile: ts.SourceFile, location: FunctionLocation) {
+  return sourceFile.getPositionOfLineAndCharacter(
+    location.line - 1,
+    location.column - 1,
+  );
+}
+
+function describePosition(sourceFile: ts.SourceFile, position: number) {
+  const { line, character } = sourceFile.getLineAndCharacterOfPosition(
+    position,
+  );
+  return `${sourceFile.fileName}:${line + 1}:${character + 1}`;
+}
+
+/** The function declared by `node`, directly or as the value it holds */
+function declaredFunction(node: ts.Node): FunctionLike | undefined {
+  if (isFunctionLike(node)) return node;
+  if (
+    (ts.isVariableDeclaration(node) || ts.isPropertyDeclaration(node) ||
+      ts.isPropertyAssignment(node)) &&
+    node.initializer && isFunctionLike(node.initializer)
+  ) {
+    return node.initializer;
+  }
+  if (ts.isExportAssignment(node) && isFunctionLike(node.expression)) {
+    return node.expression;
+  }
+  return undefined;
+}
+
+/** Finds the function declared at `position`, see `FunctionLocation` */
+function functionAt(
+  sourceFile: ts.SourceFile,
+  position: number,
+): { declaration: ts.Node; fn: FunctionLike } | undefined {
+  const visit = (
+    node: ts.Node,
+  ): { declaration: ts.Node; fn: FunctionLike } | undefined => {
+    if (node.getStart(sourceFile) === position) {
+      const fn = declaredFunction(node);
+      if (fn) return { declaration: node, fn };
+    }
+    if (node.pos > position || node.end < position) return undefined;
+    return ts.forEachChild(node, visit);
+  };
+  return visit(sourceFile);
+}
+
+/**
+ * Whether `node` can be reached from other modules: it is, or is declared in,
+ * an exported top-level declaration
+ */
+function isExported(node: ts.Node, sourceFile: ts.SourceFile): boolean {
+  let statement = node;
+  while (statement.parent !== sourceFile) statement = statement.parent;
+  if (
+    ts.isExportAssignment(statement) ||
+    (ts.canHaveModifiers(statement) &&
+      ts.getModifiers(statement)?.some((modifier) =>
+        modifier.kind === ts.SyntaxKind.ExportKeyword
+      ))
+  ) {
+    return true;
+  }
+  const names = ts.isVariableStatement(statement)
+    ? statement.declarationList.declarations.map((declaration) =>
+      declaration.name.getText(sourceFile)
+    )
+    : (ts.isFunctionDeclaration(statement) ||
+        ts.isClassDeclaration(statement)) && statement.name
+    ? [statement.name.text]
+    : [];
+  return sourceFile.statements.some((exported) =>
+    ts.isExportDeclaration(exported) && !exported.moduleSpecifier &&
+    exported.exportClause && ts.isNamedExports(exported.exportClause) &&
+    exported.exportClause.elements.some((element) =>
+      names.includes((element.propertyName ?? element.name).text)
+    )
+  );
+}
+
+/** Why the function `id` can't be made async, if it can't */
+function contractOf(id: string, planned?: PlannedFunction): string | undefined {
+  const name = functionDisplayName(id);
+  if (name.endsWith(".<static>")) {
+    return `${name} is a static initializer, which can't be async`;
+  }
+  if (!planned) {
+    return `${name} isn't declared by a function the refactoring can change, e.g. it is an interface method`;
+  }
+  const { fn } = planned;
+  if (ts.isConstructorDeclaration(fn) || name.endsWith(".constructor")) {
+    return `${name} is a constructor, which can't be async`;
+  }
+  if (ts.isAccessor(fn)) {
+    return `${name} is an accessor, which can't be async`;
+  }
+  if (!ts.isArrowFunction(fn) && fn.asteriskToken) {
+    return `${name} is a generator, making it async would change how it is iterated`;
+  }
+  return undefined;
+}
+
+/**
+ * Whether replacing the expression `node` with an `await` expression needs
+ * parentheses, e.g. for `loadConfig().path`
+ */
+function needsParentheses(node: ts.Expression): boolean {
+  const parent = node.parent;
+  if (
+    ts.isPropertyAccessExpression(parent) ||
+    ts.isElementAccessExpression(parent) || ts.isNonNullExpression(parent)
+  ) {
+    return parent.expression === node;
+  }
+  if (ts.isCallExpression(parent) || ts.isNewExpression(parent)) {
+    return parent.expression === node;
+  }
+  if (ts.isTaggedTemplateExpression(parent)) return parent.tag === node;
+  if (ts.isBinaryExpression(parent)) {
+    return parent.operatorToken.kind === ts.SyntaxKind.AsteriskAsteriskToken &&
+      parent.left === node;
+  }
+  return false;
+}
+
+/** Edits turning the expression `node` into an `await` of it */
+function awaitEdits(file: string, node: ts.Expression): TextEdit[] {
+  const start = node.getStart();
+  if (!needsParentheses(node)) {
+    return [{ file, start, end: start, text: "await " }];
+  }
+  return [
+    { file, start, end: start, text: "(await " },
+    { file, start: node.end, end: node.end, text: ")" },
+  ];
+}
+
+/** Edits declaring `fn` async, returning a promise of its declared type */
+function asyncDeclarationEdits(file: string, fn: FunctionLike): TextEdit[] {
+  const keyword = ts.isArrowFunction(fn)
+    ? fn
+    : ts.isMethodDeclaration(fn)
+    ? fn.name
+    : fn.getChildren().find((child) =>
+      child.kind === ts.SyntaxKind.FunctionKeyword
+    ) ?? fn;
+  const start = keyword.getStart();
+  const edits = [{ file, start, end: start, text: "async " }];
+  const type = fn.type;
+  if (
+    type &&
+    !(ts.isTypeReferenceNode(type) && type.typeName.getText() === "Promise")
+  ) {
+    edits.push({
+      file,
+      start: type.getStart(),
+      end: type.end,
+      text: `Promise<${type.getText()}>`,
+    });
+  }
+  return edits;
+}
+
+/** Calls `fn` makes itself, not through the functions it declares */
+function ownCalls(fn: FunctionLike): ts.CallExpression[] {
+  const calls: ts.CallExpression[] = [];
+  const visit = (node: ts.Node) => {
+    if (isFunctionLike(node) || ts.isClassLike(node)) return;
+    if (ts.isCallExpression(node)) calls.push(node);
+    ts.forEachChild(node, visit);
+  };
+  if (fn.body) visit(fn.body);
+  return calls;
+}
+
+/**
+ * Plans making the blocking function `id` async. The plan starts from the
+ * function at the end of `id`'s blocking chain, the one making the blocking
+ * API call, and goes up the call graph through its sync callers until async
+ * callers. It is refused when a function can't become async without breaking
+ * a sync API contract: constructors, accessors, generators, interface methods
+ * and callbacks of functions expecting a sync result (e.g. `Array#map`), or
+ * when a blocking API it makes has no async equivalent.
+ */
+export function planAsyncify(
+  analyzer: TypeScriptAnalyzer,
+  id: string,
+): AsyncifyPlan {
+  const state = analyzer.getState();
+  const chain = analyzer.getBlockingChain(id);
+  const target = chain?.functions.at(-1) ?? id;
+  const plan: AsyncifyPlan = {
+    target,
+    functions: [],
+    exported: [],
+    refusals: [],
+    edits: [],
+  };
+  if (!chain) {
+    plan.refusals.push(
+      `${functionDisplayName(id)} isn't known to make a blocking call`,
+    );
+    return plan;
+  }
+
+  const sourceFiles = new Map<string, ts.SourceFile>();
+  const sourceFileOf = (file: string) => {
+    let sourceFile = sourceFiles.get(file);
+    if (!sourceFile) {
+      sourceFile = ts.createSourceFile(
+        file,
+        Deno.readTextFileSync(file),
+        ts.ScriptTarget.Latest,
+        true,
+      );
+      sourceFiles.set(file, sourceFile);
+    }
+    return sourceFile;
+  };
+  const plannedFunction = (id: string): PlannedFunction | undefined => {
+    const location = state.functionLocations.get(id);
+    if (!location) return undefined;
+    const sourceFile = sourceFileOf(location.file);
+    const found = functionAt(sourceFile, positionOf(sourceFile, location));
+    return found && { id, sourceFile, ...found };
+  };
+
+  const callers = new Map<string, string[]>();
+  for (const [caller, callees] of state.functionCalls) {
+    for (const callee of callees) {
+      callers.set(callee, [...callers.get(callee) ?? [], caller]);
+    }
+  }
+
+  // Collect the target and its sync callers, up to async ones
+  const planned = new Map<string, PlannedFunction>();
+  const queue = [target];
+  const seen = new Set(queue);
+  for (let current = queue.shift(); current; current = queue.shift()) {
+    const fn = plannedFunction(current);
+    const refusal = contractOf(current, fn);
+    if (refusal) {
+      plan.refusals.push(refusal);
+      continue;
+    }
+    planned.set(current, fn!);
+    for (const caller of callers.get(current) ?? []) {
+      if (seen.has(caller) || state.asyncFunctions.has(caller)) continue;
+      seen.add(caller);
+      queue.push(caller);
+    }
+  }
+  plan.functions = [...planned.keys()];
+  plan.exported = plan.functions.filter((id) => {
+    const { declaration, sourceFile } = planned.get(id)!;
+    return isExported(declaration, sourceFile);
+  });
+
+  // Functions passed as callbacks are called by code expecting a sync result,
+  // unless it schedules them as event-loop tasks
+  for (const [file, callbacks] of state.callbackSites) {
+    for (const [offset, callback] of callbacks) {
+      if (!planned.has(callback) || state.entryPoints.has(callback)) continue;
+      plan.refusals.push(
+        `${functionDisplayName(callback)} is passed as a callback at ${
+          describePosition(sourceFileOf(file), offset)
+        }, whose caller expects a sync result`,
+      );
+    }
+  }
+
+  for (const { id, sourceFile, fn } of planned.values()) {
+    const file = sourceFile.fileName;
+    plan.edits.push(...asyncDeclarationEdits(file, fn));
+    for (const call of ownCalls(fn)) {
+      const blockingCall = state.blockingCalls.get(file)?.get(call.end);
+      if (!blockingCall) continue;
+      const asyncName = asyncEquivalent(blockingCall);
+      if (!asyncName || !ts.isPropertyAccessExpression(call.expression)) {
+        plan.refusals.push(
+          `${blockingCallLabel(blockingCall)} called by ${
+            functionDisplayName(id)
+          } at ${
+            describePosition(sourceFile, call.getStart())
+          } has no async equivalent taking the same arguments`,
+        );
+        continue;
+      }
+      const name = call.expression.name;
+      plan.edits.push(...awaitEdits(file, call), {
+        file,
+        start: name.getStart(),
+        end: name.end,
+        text: asyncName,
+      });
+    }
+  }
+
+  // Await every call to the functions made async
+  for (const [file, callSites] of state.callSites) {
+    if (![...callSites.values()].some((callee) => planned.has(callee))) {
+      continue;
+    }
+    const visit = (node: ts.Node) => {
+      if (
+        ts.isCallExpression(node) && planned.has(callSites.get(node.end)!) &&
+        !ts.isAwaitExpression(node.parent)
+      ) {
+        plan.edits.push(...awaitEdits(file, node));
+      }
+      ts.forEachChild(node, visit);
+    };
+    visit(sourceFileOf(file));
+  }
+
+  if (plan.refusals.length > 0) plan.edits = [];
+  return plan;
+}
+
+/** Applies `edits`, all made to the same file, to its text `text` */
+export function applyEdits(text: string, edits: TextEdit[]): string {
+  const sorted = edits
+    .map((edit, index) => ({ edit, index }))
+    // From the end, so earlier offsets stay valid; edits at the same
+    // position keep their order
+    .sort((a, b) => b.edit.start - a.edit.start || b.index - a.index);
+  for (const { edit } of sorted) {
+    text = `${text.slice(0, edit.start)}${edit.text}${text.slice(edit.end)}`;
+  }
+  return text;
+}
+
+/** The text of each file `plan` edits, with its edits applied */
+export function editedFiles(plan: AsyncifyPlan): Map<string, string> {
+  const files = new Map<string, string>();
+  for (const file of new Set(plan.edits.map((edit) => edit.file))) {
+    files.set(
+      file,
+      applyEdits(
+        Deno.readTextFileSync(file),
+        plan.edits.filter((edit) => edit.file === file),
+      ),
+    );
+  }
+  return files;
+}
+
+/**
+ * Formats a plan as the analyzer CLI prints it: the functions made async and
+ * the lines changed in each file, or why the refactoring is refused
+ */
+export function formatAsyncifyPlan(plan: AsyncifyPlan): string {
+  const target = functionDisplayName(plan.target);
+  if (plan.refusals.length > 0) {
+    return [
+      `Error: Can't make ${target} async:`,
+      ...plan.refusals.map((refusal) => `  - ${refusal}`),
+    ].join("\n");
+  }
+  const lines = [
+    `Making ${target} async, along with its sync callers:`,
+    ...plan.functions.map((id) => `  - ${functionDisplayName(id)}`),
+  ];
+  // Edits never add or remove line breaks, so lines keep their numbers
+  for (const [file, text] of editedFiles(plan)) {
+    lines.push("", file);
+    const before = Deno.readTextFileSync(file).split("\n");
+    for (const [index, line] of text.split("\n").entries()) {
+      if (line === before[index]) continue;
+      lines.push(`  ${index + 1}: - ${before[index].trim()}`);
+      lines.push(`  ${index + 1}: + ${line.trim()}`);
+    }
+  }
+  return lines.join("\n");
+}
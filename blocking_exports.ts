@@ -0,0 +1,84 @@
+// blocking_exports.ts
+
+/**
+ * Exports blocking the event loop, by package (`jsr:@std/fs`,
+ * `npm:fs-extra`) and export name, mapped to the async export to use
+ * instead, or `null` when there is none.
+ */
+export type BlockingExports = Record<string, Record<string, string | null>>;
+
+/**
+ * Version of `BLOCKING_EXPORTS`, to bump whenever its entries change so
+ * stored module summaries get recomputed
+ */
+export const BLOCKING_EXPORTS_VERSION = 1;
+
+/**
+ * Known blocking exports of @std and popular npm packages. Imports of these
+ * packages aren't analyzed: their exports are looked up here instead.
+ */
+export const BLOCKING_EXPORTS: BlockingExports = {
+  "jsr:@std/dotenv": {
+    loadSync: "load",
+  },
+  "jsr:@std/fs": {
+    copySync: "copy",
+    emptyDirSync: "emptyDir",
+    ensureDirSync: "ensureDir",
+    ensureFileSync: "ensureFile",
+    ensureLinkSync: "ensureLink",
+    ensureSymlinkSync: "ensureSymlink",
+    existsSync: "exists",
+    expandGlobSync: "expandGlob",
+    moveSync: "move",
+    walkSync: "walk",
+  },
+  "jsr:@std/io": {
+    readAllSync: "readAll",
+    writeAllSync: "writeAll",
+  },
+  "npm:bcrypt": {
+    compareSync: "compare",
+    genSaltSync: "genSalt",
+    hashSync: "hash",
+  },
+  "npm:execa": {
+    execaCommandSync: "execaCommand",
+    execaSync: "execa",
+  },
+  "npm:fs-extra": {
+    copySync: "copy",
+    emptyDirSync: "emptyDir",
+    ensureDirSync: "ensureDir",
+    ensureFileSync: "ensureFile",
+    mkdirsSync: "mkdirs",
+    moveSync: "move",
+    outputFileSync: "outputFile",
+    outputJsonSync: "outputJson",
+    pathExistsSync: "pathExists",
+    readJsonSync: "readJson",
+    removeSync: "remove",
+    writeJsonSync: "writeJson",
+  },
+  "npm:glob": {
+    globSync: "glob",
+    sync: "glob",
+  },
+  "npm:rimraf": {
+    rimrafSync: "rimraf",
+    sync: "rimraf",
+  },
+};
+
+/** Merges configured blocking exports into the bundled ones */
+export function mergeBlockingExports(
+  ...catalogues: (BlockingExports | undefined)[]
+): BlockingExports {
+  const merged: BlockingExports = {};
+  for (const catalogue of catalogues) {
+    for (const [pkg, exports] of Object.entries(catalogue ?? {})) {
+      merged[pkg] = { ...merged[pkg], ...exports };
+    }
+  }
+  return merged;
+}
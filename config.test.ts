@@ -0,0 +1,32 @@
+import { assertEquals } from "jsr:@std/assert@1.0.11";
+import { isIgnoredPath, loadConfig, matchesApi } from "./config.ts";
+import { withTempDir } from "./test_utils.ts";
+
+Deno.test("matchesApi matches names, their members and regexes", () => {
+  assertEquals(matchesApi("Deno.cwd", ["Deno.cwd"]), true);
+  assertEquals(matchesApi("Deno.env.get", ["Deno.env"]), true);
+  assertEquals(matchesApi("Deno.FsFile#readSync", ["Deno.FsFile"]), true);
+  assertEquals(matchesApi("Deno.environment", ["Deno.env"]), false);
+  assertEquals(matchesApi("utils.fastHashSync", ["/HashSync$/"]), true);
+  assertEquals(matchesApi("utils.fastHash", ["/HashSync$/"]), false);
+});
+
+Deno.test("loadConfig merges deno.json with the dedicated config file", () => {
+  withTempDir({
+    "deno.jsonc": `{
+      // comments are allowed
+      "noSyncInAsync": { "allow": ["Deno.cwd"], "ignore": ["tests/"] }
+    }`,
+    "no-sync-in-async.json": JSON.stringify({ allow: ["Deno.env"] }),
+    "src/main.ts": "",
+  }, (dir) => {
+    const config = loadConfig(`${dir}/src/main.ts`);
+    assertEquals(config, {
+      allow: ["Deno.env"],
+      ignore: ["tests/"],
+      root: dir,
+    });
+    assertEquals(isIgnoredPath(`${dir}/tests/a_test.ts`, config), true);
+    assertEquals(isIgnoredPath(`${dir}/src/main.ts`, config), false);
+  });
+});
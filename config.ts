@@ -0,0 +1,162 @@
+// config.ts
+import ts from "npm:typescript@5.7.2";
+import * as path from "jsr:@std/path@1.0.8";
+import type { BlockingExports } from "./blocking_exports.ts";
+
+/** Dedicated config file, looked up next to `deno.json` */
+export const CONFIG_FILE_NAME = "no-sync-in-async.json";
+
+/** Key holding the config inside `deno.json(c)` */
+export const DENO_JSON_KEY = "noSyncInAsync";
+
+/**
+ * Options shared by the `no-sync-in-async` lint rule and the analyzer CLI.
+ *
+ * API entries are matched against call names such as `Deno.cwd`,
+ * `node:fs.readFileSync`, `Deno.FsFile#readSync` or `utils.fastHashSync`.
+ * An entry matches the name itself and its members (`Deno.env` matches
+ * `Deno.env.get`); entries written as `/regex/` are matched as regular
+ * expressions.
+ */
+export interface Config {
+  /**
+   * Resolve calls with a `ts.Program` and its type checker instead of syntax
+   * alone. Slower, but follows method calls on typed values, calls through
+   * interfaces and aliased `Deno` references.
+   */
+  typed?: boolean;
+  /** Additional APIs to treat as blocking, e.g. `fastHashSync` */
+  blockingApis?: string[];
+  /**
+   * Blocking exports of packages, added to the bundled ones, by package and
+   * export name with the async export to use instead (or `null`), e.g.
+   * `{ "npm:sharp-sync": { "resizeSync": "resize" } }`
+   */
+  blockingExports?: BlockingExports;
+  /** Calls considered acceptable even though they block, e.g. `Deno.cwd` */
+  allow?: string[];
+  /** Globs of paths to skip, relative to the config's directory, e.g. `scripts/` */
+  ignore?: string[];
+  /**
+   * Also report blocking work reachable from callbacks of event-loop entry
+   * points (`setTimeout`, `setInterval`, `queueMicrotask`, `Deno.cron`,
+   * `Deno.serve`, `addEventListener` and `.then`), even when they aren't async
+   */
+  entryPoints?: boolean;
+  /**
+   * Suggest making blocking functions called from async ones async, along
+   * with their sync callers, see `planAsyncify` in asyncify.ts. The rule fixes
+   * calls when the change stays within the file and hints at the analyzer's
+   * `--asyncify` command otherwise.
+   */
+  asyncify?: boolean;
+  /**
+   * Directory to persist module summaries in, relative to the config's
+   * directory, so later runs skip parsing unchanged files and dependencies
+   */
+  summaryCacheDir?: string;
+}
+
+export interface LoadedConfig extends Config {
+  /** Directory `ignore` globs are relative to */
+  root: string;
+}
+
+/** Reads a JSON(C) file, or returns `undefined` if it doesn't exist */
+export function readJsonc(
+  filePath: string,
+): Record<string, unknown> | undefined {
+  let text: string;
+  try {
+    text = Deno.readTextFileSync(filePath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return undefined;
+    throw error;
+  }
+  const { config, error } = ts.parseConfigFileTextToJson(filePath, text);
+  if (error) {
+    throw new Error(
+      `Invalid config file ${filePath}: ${
+        ts.flattenDiagnosticMessageText(error.messageText, "\n")
+      }`,
+    );
+  }
+  return config;
+}
+
+/**
+ * Reads a config file: either the `noSyncInAsync` key of a `deno.json(c)`,
+ * or a dedicated config file whose whole content is the config.
+ */
+export function readConfigFile(filePath: string): LoadedConfig {
+  const absolutePath = path.resolve(filePath);
+  const json = readJsonc(absolutePath);
+  if (!json) {
+    throw new Deno.errors.NotFound(`Config file not found: ${absolutePath}`);
+  }
+  const isDenoJson = /^deno\.jsonc?$/.test(path.basename(absolutePath));
+  return {
+    ...(isDenoJson ? json[DENO_JSON_KEY] as Config : json as Config),
+    root: path.dirname(absolutePath),
+  };
+}
+
+/**
+ * Finds the config for `filePath` in the nearest directory containing a
+ * `deno.json(c)` or a dedicated config file. The dedicated file's options
+ * take precedence over the `deno.json` ones.
+ */
+export function loadConfig(filePath: string): LoadedConfig {
+  return loadDirectoryConfig(path.dirname(path.resolve(filePath)));
+}
+
+/** Like `loadConfig`, starting the lookup in directory `dir` */
+export function loadDirectoryConfig(dir: string): LoadedConfig {
+  dir = path.resolve(dir);
+  while (true) {
+    const denoJson = ["deno.json", "deno.jsonc"]
+      .map((name) => readJsonc(path.join(dir, name)))
+      .find((json) => json !== undefined);
+    const dedicated = readJsonc(path.join(dir, CONFIG_FILE_NAME));
+    if (denoJson || dedicated) {
+      return {
+        ...denoJson?.[DENO_JSON_KEY] as Config | undefined,
+        ...dedicated as Config | undefined,
+        root: dir,
+      };
+    }
+    const parent = path.dirname(dir);
+    if (parent === dir) return { root: Deno.cwd() };
+    dir = parent;
+  }
+}
+
+/** Whether the call name `name` matches one of the API `patterns` */
+export function matchesApi(name: string, patterns: readonly string[]): boolean {
+  return patterns.some((pattern) => {
+    if (
+      pattern.length > 2 && pattern.startsWith("/") && pattern.endsWith("/")
+    ) {
+      return new RegExp(pattern.slice(1, -1)).test(name);
+    }
+    return name === pattern || name.startsWith(`${pattern}.`) ||
+      name.startsWith(`${pattern}#`);
+  });
+}
+
+/** Whether `filePath` matches one of the config's `ignore` globs */
+export function isIgnoredPath(
+  filePath: string,
+  config: Pick<LoadedConfig, "ignore"> & { root?: string },
+): boolean {
+  const relativePath = path.relative(
+    config.root ?? Deno.cwd(),
+    path.resolve(filePath),
+  );
+  return (config.ignore ?? []).some((glob) =>
+    path.globToRegExp(glob.endsWith("/") ? `${glob}**` : glob, {
+      extended: true,
+      globstar: true,
+    }).test(relativePath)
+  );
+}
@@ -1,5 +1,6 @@
 import { assertEquals } from "jsr:@std/assert@1.0.11";
 import Plugin from "./plugin.ts";
+import { withTempDir } from "./test_utils.ts";
 
 Deno.test("no-sync-in-async", () => {
   const diagnostics = Deno.lint.runPlugin(
@@ -36,3 +37,682 @@ Deno.test("no-sync-in-async", () => {
     'await Deno.writeTextFile("hello.txt", "world")',
   );
 });
+
+function lintProject(files: Record<string, string>, entry: string) {
+  return withTempDir(
+    files,
+    (dir) => Deno.lint.runPlugin(Plugin, `${dir}/${entry}`, files[entry]),
+  );
+}
+
+Deno.test("no-sync-in-async fixes calls with a safe async equivalent", () => {
+  const diagnostics = lintProject({
+    "main.ts": `
+    export async function run(path: string, parts: [string, string]) {
+      const text = Deno.readTextFileSync(path).trim();
+      Deno.writeTextFileSync(\`\${path}.bak\`, text);
+      Deno.writeTextFileSync(...parts);
+      for (const entry of Deno.readDirSync(path)) console.log(entry);
+      const file = Deno.openSync(path);
+      file.readSync(new Uint8Array(8));
+    }
+    `,
+  }, "main.ts");
+
+  assertEquals(
+    diagnostics.map((d) =>
+      // @ts-ignore TODO: remove in 2.2.2
+      d.fix?.at(0)?.text
+    ),
+    [
+      "(await Deno.readTextFile(path))",
+      "await Deno.writeTextFile(`${path}.bak`, text)",
+      "await Deno.writeTextFile(...parts)",
+      undefined,
+      "await Deno.open(path)",
+      "await file.read(new Uint8Array(8))",
+    ],
+  );
+});
+
+Deno.test("no-sync-in-async doesn't fix calls in sync callbacks of async functions", () => {
+  const diagnostics = lintProject({
+    "main.ts": `
+    function helper() {
+      Deno.removeSync("tmp");
+    }
+
+    export async function run(items: string[]) {
+      items.forEach((path) => {
+        Deno.removeSync(path);
+      });
+      setTimeout(() => helper());
+      const clean = () => helper();
+      await Deno.remove("tmp");
+    }
+    `,
+  }, "main.ts");
+
+  assertEquals(diagnostics.map((d) => d.message.split(" (defined at")[0]), [
+    "Sync operation removeSync found in callback passed to items.forEach in async function run",
+    "Blocking function 'helper' called in callback passed to setTimeout in async function 'run'",
+    "Blocking function 'helper' called in function 'clean' in async function 'run'",
+  ]);
+  assertEquals(diagnostics.map((d) => d.fix ?? []), [[], [], []]);
+});
+
+Deno.test("no-sync-in-async suggests making blocking functions async", () => {
+  const files = {
+    "deno.json": JSON.stringify({ noSyncInAsync: { asyncify: true } }),
+    "main.ts": `function readText(path: string): string {
+  return Deno.readTextFileSync(path);
+}
+
+function loadConfig() {
+  return JSON.parse(readText("config.json"));
+}
+
+export function loadShared() {
+  return Deno.readTextFileSync("shared.json");
+}
+
+export async function main() {
+  return [loadConfig().port, loadShared()];
+}
+`,
+  };
+  const diagnostics = lintProject(files, "main.ts");
+
+  assertEquals(diagnostics.length, 2);
+  const [config, shared] = diagnostics;
+  const fixed = [
+    // @ts-ignore TODO: remove in 2.2.2
+    ...config.fix!,
+  ].sort((a, b) => b.range[0] - a.range[0]).reduce(
+    (text, { range, text: replacement }) =>
+      `${text.slice(0, range[0])}${replacement}${text.slice(range[1])}`,
+    files["main.ts"],
+  );
+  assertEquals(
+    fixed,
+    `async function readText(path: string): Promise<string> {
+  return await Deno.readTextFile(path);
+}
+
+async function loadConfig() {
+  return JSON.parse(await readText("config.json"));
+}
+
+export function loadShared() {
+  return Deno.readTextFileSync("shared.json");
+}
+
+export async function main() {
+  return [(await loadConfig()).port, loadShared()];
+}
+`,
+  );
+  assertEquals(
+    shared.hint?.replace(/ \S+#/, " main.ts#"),
+    "Make loadShared and its callers async across the project with `deno run -A analyzer.ts --asyncify main.ts#loadShared --write`",
+  );
+});
+
+Deno.test("no-sync-in-async resolves calls to their declarations", () => {
+  const diagnostics = lintProject({
+    "cache.ts": `
+    export function save() {
+      Deno.writeTextFileSync("cache.json", "{}");
+    }
+    `,
+    "main.ts": `
+    import { save as persist } from "./cache.ts";
+
+    class Db {
+      save() {}
+    }
+
+    function save() {}
+
+    export async function run(db: Db) {
+      db.save();
+      save();
+      await Promise.resolve();
+    }
+
+    export class Store {
+      save() {
+        persist();
+      }
+
+      async flush() {
+        this.save();
+        await Promise.resolve();
+      }
+    }
+    `,
+  }, "main.ts");
+
+  assertEquals(diagnostics.length, 1);
+  assertEquals(
+    diagnostics[0].message.split(" (defined at")[0],
+    "Blocking method 'save' called in async function 'flush'",
+  );
+});
+
+Deno.test("no-sync-in-async doesn't resolve calls through shadowing bindings", () => {
+  const diagnostics = lintProject({
+    "main.ts": `
+    function save() {
+      Deno.writeTextFileSync("cache.json", "{}");
+    }
+
+    export async function destructured({ save }: { save: () => void }) {
+      save();
+      await Promise.resolve();
+    }
+
+    export async function nested([, { save }]: [unknown, { save: () => void }]) {
+      save();
+      await Promise.resolve();
+    }
+
+    export async function loops(savers: (() => void)[]) {
+      for (const save of savers) save();
+      for (const save in savers) save();
+      for (let save = savers[0]; save; save = savers[1]) save();
+      await Promise.resolve();
+    }
+
+    export async function caught() {
+      try {
+        await Promise.resolve();
+      } catch (save) {
+        save();
+      }
+    }
+
+    export async function switched(kind: number, other: () => void) {
+      switch (kind) {
+        case 1: {
+          const { save } = { save: other };
+          save();
+          break;
+        }
+        default:
+          const save = other;
+          save();
+      }
+      await Promise.resolve();
+    }
+
+    export async function outer() {
+      save();
+      await Promise.resolve();
+    }
+    `,
+  }, "main.ts");
+
+  assertEquals(diagnostics.length, 1);
+  assertEquals(
+    diagnostics[0].message.split(" (defined at")[0],
+    "Blocking function 'save' called in async function 'outer'",
+  );
+});
+
+Deno.test("no-sync-in-async checks the linted text rather than the file on disk", () => {
+  const saved = `
+    function save() {
+      Deno.writeTextFileSync("cache.json", "{}");
+    }
+
+    export async function run() {
+      save();
+      await Promise.resolve();
+    }
+    `;
+  // An editor buffer with unsaved changes moving every call
+  const unsaved = `\n\n\n${saved.replace("save();", "save();\n      save();")}`;
+
+  for (const typed of [false, true]) {
+    const files = {
+      "deno.json": JSON.stringify({ noSyncInAsync: { typed } }),
+      "main.ts": saved,
+    };
+    const diagnostics = withTempDir(
+      files,
+      (dir) => Deno.lint.runPlugin(Plugin, `${dir}/main.ts`, unsaved),
+    );
+    assertEquals(
+      diagnostics.map((d) => [
+        d.message.split(" (defined at")[0],
+        unsaved.slice(...d.range),
+      ]),
+      [
+        ["Blocking function 'save' called in async function 'run'", "save()"],
+        ["Blocking function 'save' called in async function 'run'", "save()"],
+      ],
+    );
+  }
+});
+
+Deno.test("no-sync-in-async follows aliased, default, namespace and re-exported bindings", () => {
+  const diagnostics = lintProject({
+    "cfg.ts": `
+    export function readCfg() {
+      return Deno.readTextFileSync("cfg.json");
+    }
+
+    export default function () {
+      Deno.removeSync("cfg.json");
+    }
+
+    export function harmless() {}
+    `,
+    "inner.ts": `
+    import reset from "./cfg.ts";
+    export { reset as resetCfg };
+    export * from "./cfg.ts";
+    `,
+    "mod.ts": `
+    export * from "./inner.ts";
+    export * as cfg from "./cfg.ts";
+    `,
+    "main.ts": `
+    import { readCfg as load, resetCfg, harmless, cfg } from "./mod.ts";
+    import * as direct from "./cfg.ts";
+
+    export async function run() {
+      load();
+      resetCfg();
+      cfg.readCfg();
+      direct.readCfg();
+      harmless();
+      direct.harmless();
+      await Promise.resolve();
+    }
+    `,
+  }, "main.ts");
+
+  assertEquals(
+    diagnostics.map((d) => d.message.split(" (defined at")[0]),
+    [
+      "Blocking function 'load' called in async function 'run'",
+      "Blocking function 'resetCfg' called in async function 'run'",
+      "Blocking method 'readCfg' called in async function 'run'",
+      "Blocking method 'readCfg' called in async function 'run'",
+    ],
+  );
+});
+
+Deno.test("no-sync-in-async detects Node sync APIs through their imports", () => {
+  const diagnostics = lintProject({
+    "main.ts": `
+    import fs from "node:fs";
+    import * as zlib from "node:zlib";
+    import { execSync as run } from "node:child_process";
+    import { pbkdf2Sync } from "crypto";
+
+    const local = { readFileSync(_path: string) {} };
+
+    export async function handler() {
+      fs.readFileSync("data.txt");
+      zlib.gzipSync(new Uint8Array());
+      run("ls");
+      pbkdf2Sync("secret", "salt", 1, 32, "sha256");
+      local.readFileSync("data.txt");
+      await Promise.resolve();
+    }
+    `,
+  }, "main.ts");
+
+  assertEquals(diagnostics.map((d) => d.message), [
+    "Sync operation readFileSync from node:fs found in async function handler",
+    "Sync operation gzipSync from node:zlib found in async function handler",
+    "Sync operation execSync from node:child_process found in async function handler",
+    "Sync operation pbkdf2Sync from node:crypto found in async function handler",
+  ]);
+});
+
+Deno.test("no-sync-in-async detects sync methods of Deno resources", () => {
+  const diagnostics = lintProject({
+    "main.ts": `
+    export async function run(path: string) {
+      const cmd = new Deno.Command("ls");
+      cmd.outputSync();
+      const file = await Deno.open(path);
+      const buf = new Uint8Array(8);
+      file.readSync(buf);
+      Deno.stdin.readSync(buf);
+      const other = { readSync(_buf: Uint8Array) {} };
+      other.readSync(buf);
+    }
+    `,
+  }, "main.ts");
+
+  assertEquals(diagnostics.map((d) => d.message), [
+    "Sync operation outputSync on Deno.Command found in async function run",
+    "Sync operation readSync on Deno.FsFile found in async function run",
+    "Sync operation readSync on Deno.stdin found in async function run",
+  ]);
+  assertEquals(
+    // @ts-ignore TODO: remove in 2.2.2
+    diagnostics.map((d) => d.fix?.map((fix) => fix.text)),
+    [["await cmd.output()"], ["await file.read(buf)"], [
+      "await Deno.stdin.read(buf)",
+    ]],
+  );
+});
+
+Deno.test("no-sync-in-async reports the call chain to the blocking API", () => {
+  const files = {
+    "config.ts": `export function parseFile(path: string) {
+  return JSON.parse(Deno.readTextFileSync(path));
+}
+
+export function loadConfig() {
+  return parseFile("config.json");
+}
+`,
+    "main.ts": `
+    import { loadConfig } from "./config.ts";
+
+    export async function run() {
+      loadConfig();
+      await Promise.resolve();
+    }
+    `,
+  };
+  const diagnostics = lintProject(files, "main.ts");
+
+  assertEquals(diagnostics.length, 1);
+  const [message, chain] = diagnostics[0].message.split("): ");
+  assertEquals(
+    message.replace(/ \(defined at .*/, ""),
+    "Blocking function 'loadConfig' called in async function 'run'",
+  );
+  assertEquals(
+    chain.replace(/\(.*\/config\.ts:/, "(config.ts:"),
+    "run -> loadConfig -> parseFile -> Deno.readTextFileSync (config.ts:2:21)",
+  );
+});
+
+Deno.test("no-sync-in-async checks anonymous async callbacks and other async forms", () => {
+  const diagnostics = Deno.lint.runPlugin(
+    Plugin,
+    "main.ts",
+    `
+    Deno.serve(async (_req) => new Response(Deno.readTextFileSync("index.html")));
+    app.get("/", async function () {
+      Deno.statSync("app");
+    });
+    (async () => {
+      Deno.mkdirSync("tmp");
+    })();
+    const handlers = {
+      async load() {
+        Deno.readFileSync("data.bin");
+      },
+    };
+    export async function* lines() {
+      yield Deno.readTextFileSync("lines.txt");
+    }
+    export default async function () {
+      [1].map(() => Deno.removeSync("item"));
+    }
+    `,
+  );
+
+  assertEquals(diagnostics.map((d) => d.message), [
+    "Sync operation readTextFileSync found in anonymous async arrow passed to Deno.serve",
+    "Sync operation statSync found in anonymous async function passed to app.get",
+    "Sync operation mkdirSync found in anonymous async arrow invoked immediately",
+    "Sync operation readFileSync found in async function load",
+    "Sync operation readTextFileSync found in async function lines",
+    "Sync operation removeSync found in callback passed to map in default exported async function",
+  ]);
+});
+
+Deno.test("no-sync-in-async knows blocking exports of @std and npm packages", () => {
+  const files = {
+    "deno.json": JSON.stringify({
+      imports: { "@std/dotenv": "jsr:@std/dotenv@^0.225.0" },
+      noSyncInAsync: {
+        blockingExports: { "npm:native-hash": { digestSync: null } },
+      },
+    }),
+    "main.ts": `
+    import { exists, existsSync } from "jsr:@std/fs@^1.0.0/exists";
+    import * as dotenv from "@std/dotenv";
+    import fse from "npm:fs-extra@11";
+    import { digestSync } from "npm:native-hash";
+
+    export async function run() {
+      existsSync("config.json");
+      await exists("config.json");
+      dotenv.loadSync();
+      fse.readJsonSync("package.json");
+      digestSync("data");
+    }
+    `,
+  };
+
+  assertEquals(lintProject(files, "main.ts").map((d) => d.message), [
+    "Sync operation existsSync from jsr:@std/fs found in async function run, use exists instead",
+    "Sync operation loadSync from jsr:@std/dotenv found in async function run, use load instead",
+    "Sync operation readJsonSync from npm:fs-extra found in async function run, use readJson instead",
+    "Sync operation digestSync from npm:native-hash found in async function run",
+  ]);
+});
+
+Deno.test("no-sync-in-async honours the deno.json config", () => {
+  const files = {
+    "deno.json": JSON.stringify({
+      noSyncInAsync: {
+        blockingApis: ["fastHashSync"],
+        allow: ["Deno.statSync", "loadAtStartup"],
+        ignore: ["scripts/"],
+      },
+    }),
+    "hash.ts": `
+    export function fastHashSync(_data: string) {
+      return 0;
+    }
+
+    export function loadAtStartup() {
+      return Deno.readTextFileSync("startup.json");
+    }
+    `,
+    "main.ts": `
+    import { fastHashSync, loadAtStartup } from "./hash.ts";
+
+    export async function run() {
+      fastHashSync("data");
+      loadAtStartup();
+      Deno.statSync("file.txt");
+      await Promise.resolve();
+    }
+    `,
+    "scripts/build.ts": `
+    export async function build() {
+      Deno.readTextFileSync("build.json");
+      await Promise.resolve();
+    }
+    `,
+  };
+
+  assertEquals(
+    lintProject(files, "main.ts").map((d) => d.message),
+    ["Sync operation fastHashSync found in async function run"],
+  );
+  assertEquals(lintProject(files, "scripts/build.ts"), []);
+});
+
+Deno.test("no-sync-in-async checks event-loop entry point callbacks when enabled", () => {
+  const files = {
+    "deno.json": JSON.stringify({ noSyncInAsync: { entryPoints: true } }),
+    "main.ts": `
+    function flush() {
+      Deno.writeTextFileSync("log.txt", "");
+    }
+
+    setInterval(flush, 1000);
+    setTimeout(() => {
+      Deno.removeSync("tmp");
+    }, 10);
+    Deno.serve((_req) => new Response(Deno.readFileSync("index.html")));
+    `,
+  };
+
+  assertEquals(
+    lintProject(files, "main.ts").map((d) =>
+      d.message.replace(/\(.*\/main\.ts:/, "(main.ts:")
+    ),
+    [
+      "Blocking function 'flush' passed to setInterval: flush -> Deno.writeTextFileSync (main.ts:3:7)",
+      "Sync operation removeSync found in callback passed to setTimeout",
+      "Sync operation readFileSync found in callback passed to Deno.serve",
+    ],
+  );
+  assertEquals(lintProject({ "main.ts": files["main.ts"] }, "main.ts"), []);
+});
+
+Deno.test("no-sync-in-async reports blocking functions passed as callbacks", () => {
+  const files = {
+    "main.ts": `
+    function writeRecord(record: string) {
+      Deno.writeTextFileSync("records.txt", record);
+    }
+
+    export async function save(items: string[]) {
+      items.forEach(writeRecord);
+      await Promise.resolve();
+    }
+    `,
+  };
+
+  assertEquals(
+    lintProject(files, "main.ts").map((d) =>
+      d.message.replace(/\(.*\/main\.ts:/, "(main.ts:")
+    ),
+    [
+      "Blocking function 'writeRecord' passed to items.forEach in async function 'save': writeRecord -> Deno.writeTextFileSync (main.ts:3:7)",
+    ],
+  );
+});
+
+Deno.test("no-sync-in-async treats promise executors as called by the constructor", () => {
+  const files = {
+    "main.ts": `
+    function save() {
+      Deno.writeTextFileSync("records.txt", "");
+    }
+
+    export async function inline() {
+      await new Promise((resolve) => {
+        save();
+        resolve(undefined);
+      });
+    }
+
+    export async function named() {
+      function executor(resolve: (value: unknown) => void) {
+        save();
+        resolve(undefined);
+      }
+      await new Promise(executor);
+    }
+
+    export async function caller() {
+      await inline();
+    }
+    `,
+  };
+
+  assertEquals(
+    lintProject(files, "main.ts").map((d) =>
+      d.message.replace(/\/[^ ]*\/main\.ts:/g, "main.ts:")
+    ),
+    [
+      "Blocking function 'save' called in Promise executor in async function 'inline' (defined at main.ts:2:5): Promise executor -> save -> Deno.writeTextFileSync (main.ts:3:7)",
+      "Blocking function 'save' called in function 'executor' in async function 'named' (defined at main.ts:2:5): executor -> save -> Deno.writeTextFileSync (main.ts:3:7)",
+      "Blocking function 'executor' passed to Promise in async function 'named': executor -> save -> Deno.writeTextFileSync (main.ts:3:7)",
+      "Blocking function 'inline' called in async function 'caller' (defined at main.ts:6:5): caller -> inline -> inline.<anonymous@7:25> -> save -> Deno.writeTextFileSync (main.ts:3:7)",
+    ],
+  );
+});
+
+Deno.test("no-sync-in-async reports blocking constructors and inherited methods", () => {
+  const files = {
+    "main.ts": `
+    class Store {
+      constructor() {
+        Deno.mkdirSync("store");
+      }
+
+      flush() {
+        Deno.writeTextFileSync("store/data", "");
+      }
+    }
+
+    class Repo extends Store {
+      async save() {
+        this.flush();
+      }
+    }
+
+    export async function create() {
+      return new Repo();
+    }
+    `,
+  };
+
+  assertEquals(
+    lintProject(files, "main.ts").map((d) => d.message.split(" (defined")[0]),
+    [
+      "Blocking method 'flush' called in async function 'save'",
+      "Blocking constructor of 'Repo' called in async function 'create'",
+    ],
+  );
+});
+
+Deno.test("no-sync-in-async honours @nonblocking and @blocking annotations", () => {
+  const files = {
+    "ffi.ts": `
+    /** @blocking calls into a synchronous C library */
+    export function hashNative(_data: string) {
+      return 0;
+    }
+
+    /** @nonblocking the file is tiny and only read once */
+    export function readVersion() {
+      return Deno.readTextFileSync("VERSION");
+    }
+
+    /** @nonblocking */
+    export function stale() {
+      return 1;
+    }
+    `,
+    "main.ts": `
+    import { hashNative, readVersion } from "./ffi.ts";
+
+    export async function run() {
+      readVersion();
+      hashNative("data");
+      await Promise.resolve();
+    }
+    `,
+  };
+
+  const diagnostics = lintProject(files, "main.ts");
+  assertEquals(diagnostics.length, 1);
+  assertEquals(
+    diagnostics[0].message.replace(/[^\s(]*\/ffi\.ts:/g, "ffi.ts:"),
+    "Blocking function 'hashNative' called in async function 'run' (defined at ffi.ts:3:5): run -> hashNative -> @blocking (ffi.ts:2:9)",
+  );
+  assertEquals(
+    lintProject(files, "ffi.ts").map((d) => d.message),
+    ["'stale' is annotated @nonblocking but no longer reaches a blocking call"],
+  );
+});
@@ -12,8 +12,28 @@
  *
  * This includes:
  * - Calls to Deno.*Sync methods
+ * - Sync methods of Deno.Command, Deno.FsFile and the std streams
+ * - Calls to sync APIs of node:fs, node:child_process, node:crypto and node:zlib
+ * - Calls to known blocking exports of @std and npm packages, see blocking_exports.ts
  * - Calls to known blocking functions
  * - Method calls to known blocking functions
+ * - `@nonblocking`/`@blocking` annotations that no longer match the analysis
+ *
+ * Every async context is checked: async functions, methods and generators,
+ * and anonymous async callbacks such as `Deno.serve(async (req) => ...)` or
+ * async IIFEs, which are described by where they are used. With the
+ * `entryPoints` option, sync callbacks of scheduling APIs such as `setTimeout`
+ * are checked too, along with blocking functions passed to them.
+ *
+ * With the `asyncify` option, calls to blocking functions suggest making them
+ * async along with their sync callers, see asyncify.ts.
+ *
+ * A `@nonblocking reason` JSDoc tag on a function stops its blocking status
+ * from propagating to its callers, and a `@blocking reason` tag marks a
+ * function the analyzer can't see into (e.g. an FFI wrapper) as blocking.
+ *
+ * The rule is configured through the `noSyncInAsync` key of `deno.json`, or a
+ * `no-sync-in-async.json` file next to it, see `Config` in config.ts.
  *
  * The plugin analyzes TypeScript/JavaScript files to identify potentially problematic
  * synchronous operations that could block the event loop when used in async contexts.
@@ -47,7 +67,259 @@
  * ```
  */
 
-import { TypeScriptAnalyzer } from "./analyzer.ts";
+import * as path from "jsr:@std/path@1.0.8";
+import {
+  asyncEquivalent,
+  type BlockingCall,
+  entryPointApi,
+  formatBlockingChain,
+  functionDisplayName,
+  TypeScriptAnalyzer,
+} from "./analyzer.ts";
+import { planAsyncify } from "./asyncify.ts";
+import { loadConfig } from "./config.ts";
+
+type FunctionNode =
+  | Deno.lint.FunctionDeclaration
+  | Deno.lint.FunctionExpression
+  | Deno.lint.ArrowFunctionExpression;
+
+/** The parent of `node`, which Deno's lint AST sets but doesn't type */
+function parentOf(node: Deno.lint.Node): Deno.lint.Node | undefined {
+  return (node as { parent?: Deno.lint.Node }).parent;
+}
+
+/** The ancestors of `node`, innermost first */
+function* ancestors(node: Deno.lint.Node): Generator<Deno.lint.Node> {
+  for (let current = parentOf(node); current; current = parentOf(current)) {
+    yield current;
+  }
+}
+
+/** The async function a call is made in */
+interface AsyncContext {
+  /** Name of the function, or a description of an anonymous one */
+  name: string;
+  anonymous: boolean;
+  /**
+   * Whether `await` can be used, i.e. not in an entry point callback or a
+   * sync function nested in the async one
+   */
+  async: boolean;
+  /** The async function a sync function is nested in */
+  enclosing?: AsyncContext;
+}
+
+/** Dotted text of a callee such as `Deno.serve` or `app.get` */
+function calleeText(node: Deno.lint.Node): string | undefined {
+  if (node.type === "Identifier") return node.name;
+  if (node.type === "ThisExpression") return "this";
+  if (
+    node.type === "MemberExpression" && !node.computed &&
+    (node.property.type === "Identifier" ||
+      node.property.type === "PrivateIdentifier")
+  ) {
+    const object = calleeText(node.object);
+    return object && `${object}.${node.property.name}`;
+  }
+  return undefined;
+}
+
+function keyName(key: Deno.lint.Node): string | undefined {
+  if (key.type === "Identifier") return key.name;
+  if (key.type === "PrivateIdentifier") return `#${key.name}`;
+  if (key.type === "Literal") return String(key.value);
+  return undefined;
+}
+
+/** Name of a function, taken from its declaration or where it is assigned */
+function asyncFunctionName(node: FunctionNode): string | undefined {
+  if (node.id?.name) return node.id.name;
+  const parent = parentOf(node);
+  switch (parent?.type) {
+    case "VariableDeclarator":
+      return parent.id.type === "Identifier" ? parent.id.name : undefined;
+    case "MethodDefinition":
+    case "PropertyDefinition":
+    case "Property":
+      return parent.value === node ? keyName(parent.key) : undefined;
+    case "AssignmentExpression":
+      return parent.left.type === "MemberExpression"
+        ? keyName(parent.left.property)
+        : calleeText(parent.left);
+  }
+  return undefined;
+}
+
+/**
+ * Describes an anonymous async function by where it is used, e.g.
+ * "anonymous async arrow passed to Deno.serve"
+ */
+function describeAnonymous(node: FunctionNode): string {
+  const kind = node.type === "ArrowFunctionExpression"
+    ? "arrow"
+    : node.generator
+    ? "generator function"
+    : "function";
+  const parent = parentOf(node);
+  if (parent?.type === "ExportDefaultDeclaration") {
+    return `default exported async ${kind}`;
+  }
+  const description = `anonymous async ${kind}`;
+  if (
+    (parent?.type === "CallExpression" || parent?.type === "NewExpression") &&
+    parent.callee === node
+  ) {
+    return `${description} invoked immediately`;
+  }
+  const call = callTakingArgument(node);
+  if (call) {
+    const callee = calleeText(call.callee);
+    return callee
+      ? `${description} passed to ${callee}`
+      : `${description} passed as an argument`;
+  }
+  return description;
+}
+
+/**
+ * The call `node` is passed to. Deno's lint AST puts an intermediate node
+ * between calls and their arguments, so the call is looked up by range.
+ */
+function callTakingArgument(
+  node: Deno.lint.Node,
+): Deno.lint.CallExpression | Deno.lint.NewExpression | undefined {
+  const parent = parentOf(node);
+  for (const call of [parent, parent && parentOf(parent)]) {
+    if (
+      (call?.type === "CallExpression" || call?.type === "NewExpression") &&
+      call.arguments.some((arg) =>
+        arg.range[0] === node.range[0] && arg.range[1] === node.range[1]
+      )
+    ) {
+      return call;
+    }
+  }
+  return undefined;
+}
+
+/** The scheduling API (e.g. `setTimeout`) a call goes to, if any */
+function callEntryPoint(
+  call: Deno.lint.CallExpression | Deno.lint.NewExpression,
+): string | undefined {
+  return entryPointApi(
+    calleeText(call.callee),
+    call.callee.type === "MemberExpression"
+      ? keyName(call.callee.property)
+      : undefined,
+  );
+}
+
+function isFunction(node: Deno.lint.Node): node is FunctionNode {
+  return node.type === "FunctionDeclaration" ||
+    node.type === "FunctionExpression" ||
+    node.type === "ArrowFunctionExpression";
+}
+
+/**
+ * Describes a sync function nested in an async one, e.g. "callback passed to
+ * items.forEach" or "Promise executor"
+ */
+function describeNested(node: FunctionNode): string {
+  const call = callTakingArgument(node);
+  if (!call) return "nested function";
+  if (
+    call.type === "NewExpression" && calleeText(call.callee) === "Promise" &&
+    call.arguments[0]?.range[0] === node.range[0]
+  ) {
+    return "Promise executor";
+  }
+  const callee = calleeText(call.callee) ??
+    (call.callee.type === "MemberExpression"
+      ? keyName(call.callee.property)
+      : undefined);
+  return `callback passed to ${callee ?? "a function"}`;
+}
+
+/**
+ * The innermost async function enclosing `node`. With `entryPoints`, sync
+ * callbacks passed to scheduling APIs count as async functions too. When a
+ * sync function is nested in between, it is returned with the async function
+ * enclosing it.
+ */
+function findAsyncParent(
+  node: Deno.lint.Node,
+  entryPoints = false,
+): AsyncContext | undefined {
+  let nested: FunctionNode | undefined;
+  for (const current of ancestors(node)) {
+    if (!isFunction(current)) continue;
+    let context: AsyncContext | undefined;
+    if (current.async) {
+      const name = asyncFunctionName(current);
+      context = name
+        ? { name, anonymous: false, async: true }
+        : { name: describeAnonymous(current), anonymous: true, async: true };
+    } else if (entryPoints && current.type !== "FunctionDeclaration") {
+      const call = callTakingArgument(current);
+      const api = call && callEntryPoint(call);
+      if (api) {
+        context = {
+          name: `callback passed to ${api}`,
+          anonymous: true,
+          async: false,
+        };
+      }
+    }
+    if (!context) {
+      nested ??= current;
+      continue;
+    }
+    if (!nested) return context;
+    const name = asyncFunctionName(nested);
+    return {
+      name: name ?? describeNested(nested),
+      anonymous: !name,
+      async: false,
+      enclosing: context,
+    };
+  }
+  return undefined;
+}
+
+/** Formats where a call is made, e.g. `async function 'run'` */
+function contextLabel(context: AsyncContext, quote = ""): string {
+  const { enclosing } = context;
+  const label = context.anonymous
+    ? context.name
+    : `${
+      enclosing ? "function" : "async function"
+    } ${quote}${context.name}${quote}`;
+  return enclosing ? `${label} in ${contextLabel(enclosing, quote)}` : label;
+}
+
+/**
+ * Whether the call `node` is the operand of an expression binding tighter
+ * than `await`, e.g. `Deno.readTextFileSync(p).trim()`, so that replacing it
+ * with an `await` expression needs parentheses
+ */
+function needsParentheses(node: Deno.lint.Node): boolean {
+  const parent = parentOf(node);
+  const is = (child: Deno.lint.Node) =>
+    child?.range[0] === node.range[0] && child?.range[1] === node.range[1];
+  switch (parent?.type) {
+    case "MemberExpression":
+      return is(parent.object);
+    case "CallExpression":
+    case "NewExpression":
+      return is(parent.callee);
+    case "TaggedTemplateExpression":
+      return is(parent.tag);
+    case "BinaryExpression":
+      return parent.operator === "**" && is(parent.left);
+  }
+  return false;
+}
 
 /**
  * A Deno lint plugin that detects synchronous operations within async functions.
@@ -58,53 +330,190 @@ const plugin: Deno.lint.Plugin = {
   rules: {
     "no-sync-in-async": {
       create(context) {
-        const analyzer = new TypeScriptAnalyzer();
+        const config = loadConfig(context.filename);
+        const analyzer = new TypeScriptAnalyzer(config);
+        if (analyzer.isIgnored(context.filename)) return {};
+        // Offsets of calls must match the linted text, which can differ
+        // from the file on disk (e.g. unsaved changes in an editor)
+        analyzer.setSource(context.filename, context.sourceCode.text);
         analyzer.analyzeFile(context.filename);
         const state = analyzer.getState();
 
-        // TODO: report upstream type issues
-        // deno-lint-ignore no-explicit-any
-        function findAsyncParent(node: any): string | undefined {
-          let current = node;
-          while (current) {
-            if (current.type === "FunctionDeclaration" && current.async) {
-              return current.id?.name;
-            }
-            if (current.type === "ArrowFunctionExpression" && current.async) {
-              if (current.parent?.type === "VariableDeclarator") {
-                return current.parent.id?.name;
-              }
-              if (current.parent?.type === "PropertyDefinition") {
-                return current.parent.key?.name;
-              }
-              if (current.parent?.type === "MethodDefinition") {
-                return current.parent.key?.name;
-              }
-            }
-            if (
-              current.type === "MethodDefinition" &&
-              current.value?.async &&
-              current.key?.name
-            ) {
-              return current.key.name;
-            }
+        /** Where a blocking callee is defined and its chain to the blocking API */
+        function calleeDetails(callee: string, asyncContext: AsyncContext) {
+          const loc = state.functionLocations.get(callee);
+          const chain = analyzer.getBlockingChain(callee);
+          const location = loc
+            ? ` (defined at ${loc.file}:${loc.line}:${loc.column})`
+            : "";
+          // Nested functions are named as in the message
+          const caller = asyncContext.anonymous && !asyncContext.enclosing
+            ? "<anonymous>"
+            : asyncContext.name;
+          const trace = chain ? `: ${formatBlockingChain(chain, caller)}` : "";
+          return `${location}${trace}`;
+        }
+
+        /**
+         * Fix awaiting the async equivalent of the blocking call `node` makes,
+         * when there is a safe one and `await` can be used where it is made
+         */
+        function asyncFix(
+          node: Deno.lint.CallExpression,
+          call: BlockingCall,
+          asyncContext: AsyncContext,
+        ): Pick<Deno.lint.ReportData, "fix"> {
+          const asyncName = asyncEquivalent(call);
+          const callee = node.callee;
+          if (
+            !asyncName || !asyncContext.async || node.optional ||
+            callee.type !== "MemberExpression" || callee.computed ||
+            callee.optional
+          ) {
+            return {};
+          }
+          const [start] = node.range;
+          const text = context.sourceCode.getText(node);
+          const [propertyStart, propertyEnd] = callee.property.range;
+          // The arguments and receiver are kept verbatim
+          const asyncCall = `await ${
+            text.slice(0, propertyStart - start)
+          }${asyncName}${text.slice(propertyEnd - start)}`;
+          return {
+            fix: (fixer) =>
+              fixer.replaceText(
+                node,
+                needsParentheses(node) ? `(${asyncCall})` : asyncCall,
+              ),
+          };
+        }
+
+        /**
+         * With the `asyncify` option, the refactoring making the blocking
+         * function `callee` async: a fix when it only changes this file, a
+         * hint at the analyzer CLI otherwise, or why it can't be done
+         */
+        function asyncifyRefactoring(
+          callee: string,
+        ): Pick<Deno.lint.ReportData, "fix" | "hint"> {
+          if (!config.asyncify) return {};
+          const plan = planAsyncify(analyzer, callee);
+          const target = functionDisplayName(plan.target);
+          if (plan.refusals.length > 0) {
+            return {
+              hint: `${target} can't be made async: ${
+                plan.refusals.join("; ")
+              }`,
+            };
+          }
+          // Callers of exported functions may be in files not analyzed here
+          const filePath = path.resolve(context.filename);
+          if (
+            plan.exported.length > 0 ||
+            plan.edits.some((edit) => edit.file !== filePath)
+          ) {
+            return {
+              hint:
+                `Make ${target} and its callers async across the project with \`deno run -A analyzer.ts --asyncify ${plan.target} --write\``,
+            };
+          }
+          return {
+            fix: (fixer) =>
+              plan.edits.map((edit) =>
+                fixer.replaceTextRange([edit.start, edit.end], edit.text)
+              ),
+          };
+        }
+
+        /**
+         * Reports the blocking functions passed to `node` that the callee
+         * calls, inline callbacks are checked like nested functions
+         */
+        function reportInvokedCallbacks(
+          node: Deno.lint.CallExpression | Deno.lint.NewExpression,
+          asyncContext: AsyncContext,
+        ) {
+          for (const argument of node.arguments) {
+            const callback = analyzer.invokedCallbackAt(
+              context.filename,
+              argument.range[0],
+            );
             if (
-              current.type === "PropertyDefinition" &&
-              current.value?.type === "ArrowFunctionExpression" &&
-              current.value.async &&
-              current.key?.name
+              !callback || !analyzer.isBlockingFunction(callback) ||
+              argument.type === "ArrowFunctionExpression" ||
+              argument.type === "FunctionExpression"
             ) {
-              return current.key.name;
+              continue;
             }
-            current = current.parent;
+            const chain = analyzer.getBlockingChain(callback);
+            const callee = calleeText(node.callee) ??
+              (node.callee.type === "MemberExpression"
+                ? keyName(node.callee.property)
+                : undefined);
+            // Named as written, like functions nested in the async one
+            const name = argument.type === "Identifier"
+              ? argument.name
+              : functionDisplayName(callback);
+            const trace = chain &&
+              formatBlockingChain(
+                { ...chain, functions: chain.functions.slice(1) },
+                name,
+              );
+            context.report({
+              node: argument,
+              message: `Blocking function '${name}' passed to ${
+                callee ?? "a function"
+              } in ${contextLabel(asyncContext, "'")}${
+                trace ? `: ${trace}` : ""
+              }`,
+            });
           }
-          return undefined;
         }
 
         return {
+          Program() {
+            for (
+              const warning of analyzer.getAnnotationWarnings(
+                context.filename,
+              )
+            ) {
+              context.report({
+                range: warning.annotation.range,
+                message: warning.message,
+              });
+            }
+          },
           CallExpression(node: Deno.lint.CallExpression) {
-            const asyncFuncName = findAsyncParent(node);
-            if (!asyncFuncName) return;
+            // Check for blocking functions scheduled as event-loop tasks,
+            // inline callbacks are checked like async functions
+            const api = config.entryPoints && callEntryPoint(node);
+            for (const argument of api ? node.arguments : []) {
+              if (
+                argument.type === "ArrowFunctionExpression" ||
+                argument.type === "FunctionExpression"
+              ) {
+                continue;
+              }
+              const callback = analyzer.callbackAt(
+                context.filename,
+                argument.range[0],
+              );
+              if (!callback || !analyzer.isBlockingFunction(callback)) continue;
+              const chain = analyzer.getBlockingChain(callback);
+              context.report({
+                node: argument,
+                message: `Blocking function '${
+                  functionDisplayName(callback)
+                }' passed to ${api}${
+                  chain ? `: ${formatBlockingChain(chain)}` : ""
+                }`,
+              });
+            }
+
+            const asyncContext = findAsyncParent(node, config.entryPoints);
+            if (!asyncContext) return;
+
+            reportInvokedCallbacks(node, asyncContext);
 
             // Check for Deno.*Sync calls
             if (
@@ -112,63 +521,120 @@ const plugin: Deno.lint.Plugin = {
               node.callee.object.type === "Identifier" &&
               node.callee.object.name === "Deno" &&
               node.callee.property.type === "Identifier" &&
-              node.callee.property.name.endsWith("Sync")
+              node.callee.property.name.endsWith("Sync") &&
+              !analyzer.isAllowed(`Deno.${node.callee.property.name}`)
             ) {
               context.report({
                 node,
                 message:
-                  `Sync operation ${node.callee.property.name} found in async function ${asyncFuncName}`,
-                fix(fixer) {
-                  const syncName = ((node.callee as Deno.lint.MemberExpression)
-                    .property as Deno.lint.PrivateIdentifier)
-                    .name;
-                  // deno-fmt-ignore
-                  const nodeArgs = node.arguments.map(arg => (arg as Deno.lint.Literal).raw).join(", ");
-                  // deno-fmt-ignore
-                  const asyncName = `await Deno.${syncName.replace("Sync", "")}(${nodeArgs})`;
-                  return fixer.replaceText(node, asyncName);
-                },
+                  `Sync operation ${node.callee.property.name} found in ${
+                    contextLabel(asyncContext)
+                  }`,
+                ...asyncFix(node, {
+                  module: "Deno",
+                  name: node.callee.property.name,
+                }, asyncContext),
               });
               return;
             }
 
-            // Check for direct calls to known blocking functions
+            const blockingCall = analyzer.blockingCallAt(
+              context.filename,
+              node.range[1],
+            );
+
+            // Check for sync methods of Deno resources (files, commands, std streams)
             if (
-              node.callee.type === "Identifier" &&
-              state.blockingFunctions.has(node.callee.name)
+              blockingCall?.receiver &&
+              node.callee.type === "MemberExpression"
             ) {
-              const loc = state.functionLocations.get(node.callee.name);
               context.report({
                 node,
                 message:
-                  `Blocking function '${node.callee.name}' called in async function '${asyncFuncName}'${
-                    loc
-                      ? ` (defined at ${loc.file}:${loc.line}:${loc.column})`
-                      : ""
+                  `Sync operation ${blockingCall.name} on ${blockingCall.receiver} found in ${
+                    contextLabel(asyncContext)
                   }`,
+                ...asyncFix(node, blockingCall, asyncContext),
               });
+              return;
             }
 
-            // Check for method calls to known blocking functions
-            if (
+            // Check for sync APIs imported from Node modules and known
+            // packages, or Deno APIs reached through aliases
+            if (blockingCall) {
+              const source = blockingCall.module &&
+                  blockingCall.module !== "Deno"
+                ? ` from ${blockingCall.module}`
+                : "";
+              const replacement = blockingCall.replacement
+                ? `, use ${blockingCall.replacement} instead`
+                : "";
+              context.report({
+                node,
+                message:
+                  `Sync operation ${blockingCall.name}${source} found in ${
+                    contextLabel(asyncContext)
+                  }${replacement}`,
+              });
+              return;
+            }
+
+            // Check for calls that resolve to known blocking functions
+            const callee = analyzer.resolveCallAt(
+              context.filename,
+              node.range[1],
+            );
+            if (!callee || !analyzer.isBlockingFunction(callee)) return;
+
+            const details = calleeDetails(callee, asyncContext);
+            if (node.callee.type === "Identifier") {
+              context.report({
+                node,
+                message: `Blocking function '${node.callee.name}' called in ${
+                  contextLabel(asyncContext, "'")
+                }${details}`,
+                ...asyncifyRefactoring(callee),
+              });
+            } else if (
               node.callee.type === "MemberExpression" &&
-              node.callee.property.type === "Identifier" &&
-              state.blockingFunctions.has(node.callee.property.name)
+              node.callee.property.type === "Identifier"
             ) {
-              const loc = state.functionLocations.get(
-                node.callee.property.name,
-              );
               context.report({
                 node,
                 message:
-                  `Blocking method '${node.callee.property.name}' called in async function '${asyncFuncName}'${
-                    loc
-                      ? ` (defined at ${loc.file}:${loc.line}:${loc.column})`
-                      : ""
-                  }`,
+                  `Blocking method '${node.callee.property.name}' called in ${
+                    contextLabel(asyncContext, "'")
+                  }${details}`,
+                ...asyncifyRefactoring(callee),
               });
             }
           },
+          NewExpression(node: Deno.lint.NewExpression) {
+            const asyncContext = findAsyncParent(node, config.entryPoints);
+            if (!asyncContext) return;
+
+            // Check for blocking functions run by the constructor, e.g.
+            // promise executors
+            reportInvokedCallbacks(node, asyncContext);
+
+            // Check for constructors of classes that block
+            const constructor = analyzer.resolveCallAt(
+              context.filename,
+              node.range[1],
+            );
+            if (!constructor || !analyzer.isBlockingFunction(constructor)) {
+              return;
+            }
+            context.report({
+              node,
+              message: `Blocking constructor of '${
+                calleeText(node.callee) ??
+                  functionDisplayName(constructor).replace(/\.constructor$/, "")
+              }' called in ${contextLabel(asyncContext, "'")}${
+                calleeDetails(constructor, asyncContext)
+              }`,
+            });
+          },
         };
       },
     },
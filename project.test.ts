@@ -0,0 +1,52 @@
+import { assertEquals } from "jsr:@std/assert@1.0.11";
+import { findSourceFiles } from "./project.ts";
+import { withTempDir } from "./test_utils.ts";
+
+const workspace = {
+  "deno.json": JSON.stringify({
+    workspace: ["./packages/*"],
+    exclude: ["scripts/"],
+  }),
+  "main.ts": "",
+  "scripts/build.ts": "",
+  "node_modules/dep/index.js": "",
+  "packages/core/deno.json": JSON.stringify({ exclude: ["generated"] }),
+  "packages/core/mod.ts": "",
+  "packages/core/types.d.ts": "",
+  "packages/core/generated/schema.ts": "",
+  "packages/web/deno.json": JSON.stringify({ include: ["src/"] }),
+  "packages/web/src/app.tsx": "",
+  "packages/web/test/app_test.ts": "",
+  "README.md": "",
+};
+
+Deno.test("findSourceFiles discovers the files of deno.json and its workspace members", () => {
+  withTempDir(workspace, (dir) => {
+    assertEquals(
+      findSourceFiles([], dir).map((file) => file.slice(dir.length + 1)),
+      [
+        "main.ts",
+        "packages/core/mod.ts",
+        "packages/web/src/app.tsx",
+      ],
+    );
+  });
+});
+
+Deno.test("findSourceFiles expands files, directories and globs", () => {
+  withTempDir(workspace, (dir) => {
+    assertEquals(
+      findSourceFiles(
+        [`${dir}/main.ts`, `${dir}/packages/web`, `${dir}/packages/*/mod.ts`],
+        dir,
+      ).map((file) => file.slice(dir.length + 1)),
+      [
+        "main.ts",
+        "packages/core/mod.ts",
+        "packages/web/src/app.tsx",
+        "packages/web/test/app_test.ts",
+      ],
+    );
+    assertEquals(findSourceFiles([`${dir}/scripts`], dir), []);
+  });
+});
@@ -0,0 +1,177 @@
+// project.ts
+import * as path from "jsr:@std/path@1.0.8";
+import { readJsonc } from "./config.ts";
+
+/** Extensions of the files picked up when walking directories */
+export const SOURCE_EXTENSIONS = [
+  ".ts",
+  ".tsx",
+  ".mts",
+  ".cts",
+  ".js",
+  ".jsx",
+  ".mjs",
+  ".cjs",
+];
+
+/** Reads the `deno.json(c)` of directory `dir`, if it has one */
+export function readDenoJson(
+  dir: string,
+): Record<string, unknown> | undefined {
+  return readJsonc(path.join(dir, "deno.json")) ??
+    readJsonc(path.join(dir, "deno.jsonc"));
+}
+
+/** Resolves the paths or globs of a `deno.json` option against `dir` */
+function patternsOf(value: unknown, dir: string): string[] {
+  if (!Array.isArray(value)) return [];
+  return value
+    .filter((item): item is string => typeof item === "string")
+    .map((pattern) => path.resolve(dir, pattern));
+}
+
+/** Whether `filePath` is `pattern`, is inside it, or matches it as a glob */
+function matchesPattern(filePath: string, pattern: string): boolean {
+  if (path.isGlob(pattern)) {
+    return path.globToRegExp(pattern, { extended: true, globstar: true })
+      .test(filePath);
+  }
+  return filePath === pattern || filePath.startsWith(`${pattern}${path.sep}`);
+}
+
+function isSourceFile(filePath: string): boolean {
+  return SOURCE_EXTENSIONS.includes(path.extname(filePath)) &&
+    !filePath.endsWith(".d.ts");
+}
+
+/** The directory before the first glob segment of `pattern` */
+function globBase(pattern: string): string {
+  const segments = pattern.split(path.sep);
+  return segments.slice(0, segments.findIndex(path.isGlob)).join(path.sep) ||
+    path.sep;
+}
+
+/**
+ * Walks `dir` for source files, skipping `node_modules`, hidden directories
+ * and paths matching one of the `exclude` patterns.
+ */
+function walk(dir: string, exclude: string[], files: Set<string>) {
+  let entries: Deno.DirEntry[];
+  try {
+    entries = [...Deno.readDirSync(dir)];
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return;
+    throw error;
+  }
+  for (const entry of entries) {
+    const entryPath = path.join(dir, entry.name);
+    if (exclude.some((pattern) => matchesPattern(entryPath, pattern))) {
+      continue;
+    }
+    if (entry.isDirectory) {
+      if (entry.name === "node_modules" || entry.name.startsWith(".")) {
+        continue;
+      }
+      walk(entryPath, exclude, files);
+    } else if (entry.isFile && isSourceFile(entry.name)) {
+      files.add(entryPath);
+    }
+  }
+}
+
+/** Adds the files matched by an absolute file, directory or glob `pattern` */
+function addPattern(pattern: string, exclude: string[], files: Set<string>) {
+  if (path.isGlob(pattern)) {
+    const matches = new Set<string>();
+    walk(globBase(pattern), exclude, matches);
+    for (const file of matches) {
+      if (matchesPattern(file, pattern)) files.add(file);
+    }
+    return;
+  }
+
+  let info: Deno.FileInfo;
+  try {
+    info = Deno.statSync(pattern);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return;
+    throw error;
+  }
+  if (info.isDirectory) {
+    walk(pattern, exclude, files);
+  } else {
+    files.add(pattern);
+  }
+}
+
+/** Directories of the `workspace` members of the `deno.json` in `dir` */
+export function workspaceMembers(
+  dir: string,
+  denoJson: Record<string, unknown>,
+): string[] {
+  const workspace = denoJson.workspace;
+  const members = patternsOf(
+    Array.isArray(workspace)
+      ? workspace
+      : (workspace as { members?: unknown } | undefined)?.members,
+    dir,
+  );
+  return members.flatMap((member) => {
+    if (!path.isGlob(member)) return [member];
+    const regExp = path.globToRegExp(member, { extended: true });
+    try {
+      return [...Deno.readDirSync(globBase(member))]
+        .filter((entry) => entry.isDirectory)
+        .map((entry) => path.join(globBase(member), entry.name))
+        .filter((memberDir) => regExp.test(memberDir));
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return [];
+      throw error;
+    }
+  });
+}
+
+/**
+ * Lists the source files to analyze, as sorted absolute paths.
+ *
+ * `paths` are files, directories or globs relative to the working directory.
+ * Without `paths`, the files come from the `include` option of the
+ * `deno.json` in `root` and of its workspace members, defaulting to their
+ * whole directory. The `exclude` option of the root `deno.json` applies in
+ * both cases, the one of a member to the member's files.
+ */
+export function findSourceFiles(
+  paths: string[],
+  root: string = Deno.cwd(),
+): string[] {
+  root = path.resolve(root);
+  const denoJson = readDenoJson(root) ?? {};
+  const exclude = patternsOf(denoJson.exclude, root);
+  const files = new Set<string>();
+
+  if (paths.length > 0) {
+    for (const pattern of paths) {
+      addPattern(path.resolve(pattern), exclude, files);
+    }
+    return [...files].sort();
+  }
+
+  // Each member's files are governed by its own `deno.json`
+  const members = workspaceMembers(root, denoJson);
+  const rootInclude = patternsOf(denoJson.include, root);
+  for (const pattern of rootInclude.length > 0 ? rootInclude : [root]) {
+    addPattern(pattern, [...exclude, ...members], files);
+  }
+  for (const member of members) {
+    const memberJson = readDenoJson(member) ?? {};
+    const include = patternsOf(memberJson.include, member);
+    for (const pattern of include.length > 0 ? include : [member]) {
+      addPattern(
+        pattern,
+        [...exclude, ...patternsOf(memberJson.exclude, member)],
+        files,
+      );
+    }
+  }
+  return [...files].sort();
+}
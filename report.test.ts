@@ -0,0 +1,222 @@
+import { assertEquals } from "jsr:@std/assert@1.0.11";
+import { type AnalyzerOptions, TypeScriptAnalyzer } from "./analyzer.ts";
+import { buildReport, formatText, hasFindings, toSarif } from "./report.ts";
+import type { LagSummary } from "./runtime.ts";
+import { withTempDir } from "./test_utils.ts";
+
+function analyzeProject(
+  files: Record<string, string>,
+  entry: string,
+  options: AnalyzerOptions = {},
+  lag?: LagSummary,
+) {
+  return withTempDir(files, (dir) => {
+    const analyzer = new TypeScriptAnalyzer(options);
+    analyzer.analyzeFile(`${dir}/${entry}`);
+    return { dir, report: buildReport(analyzer, lag) };
+  });
+}
+
+const project = {
+  "main.ts": `export function parse() {
+  return JSON.parse(Deno.readTextFileSync("config.json"));
+}
+
+export function load() {
+  return parse();
+}
+`,
+};
+
+Deno.test("buildReport carries IDs, locations, root calls and chains", () => {
+  const { dir, report } = analyzeProject(project, "main.ts");
+  const file = `${dir}/main.ts`;
+
+  assertEquals(report.blockingFunctions[0], {
+    id: `${file}#load`,
+    name: "load",
+    location: { file, line: 5, column: 1 },
+    rootCall: {
+      api: "Deno.readTextFileSync",
+      location: { file, line: 2, column: 21 },
+    },
+    chain: [`${file}#load`, `${file}#parse`],
+  });
+  assertEquals(report.staleAnnotations, []);
+  assertEquals(
+    formatText(report).replaceAll(file, "main.ts"),
+    `
+Warning: Found blocking functions in the following locations:
+  - load (in main.ts:5:1)
+      load -> parse -> Deno.readTextFileSync (main.ts:2:21)
+  - parse (in main.ts:1:1)
+      parse -> Deno.readTextFileSync (main.ts:2:21)`,
+  );
+});
+
+Deno.test("toSarif emits rule IDs and locations relative to the root", () => {
+  const { dir, report } = analyzeProject(project, "main.ts");
+  const [run] = toSarif(report, dir).runs;
+
+  assertEquals(run.originalUriBaseIds["%SRCROOT%"].uri.endsWith("/"), true);
+  assertEquals(
+    run.results.map((result) => result.ruleId),
+    [
+      "no-sync-in-async/blocking-function",
+      "no-sync-in-async/blocking-function",
+    ],
+  );
+  assertEquals(run.results[0].locations[0].physicalLocation, {
+    artifactLocation: { uri: "main.ts", uriBaseId: "%SRCROOT%" },
+    region: { startLine: 5, startColumn: 1 },
+  });
+  assertEquals(
+    run.results[0].message.text,
+    "'load' blocks the event loop: load -> parse -> Deno.readTextFileSync",
+  );
+});
+
+Deno.test("buildReport groups async functions reaching blocking calls by file", () => {
+  const { dir, report } = analyzeProject({
+    "io.ts": `export function read() {
+  return Deno.readTextFileSync("data.txt");
+}
+
+export async function load() {
+  return read();
+}
+`,
+    "main.ts": `import { read } from "./io.ts";
+
+export const main = async () => {
+  await Promise.resolve(read());
+};
+
+export function helper() {
+  return read();
+}
+`,
+  }, "main.ts");
+
+  assertEquals(
+    report.findings.map(({ file, functions }) => ({
+      file: file.slice(dir.length + 1),
+      functions: functions.map((func) => func.name),
+    })),
+    [
+      { file: "io.ts", functions: ["load"] },
+      { file: "main.ts", functions: ["main"] },
+    ],
+  );
+  assertEquals(hasFindings(report), true);
+});
+
+Deno.test("toSarif reports async functions once, as findings", () => {
+  const { report } = analyzeProject({
+    "main.ts": `export function read() {
+  return Deno.readTextFileSync("data.txt");
+}
+
+export async function load() {
+  return read();
+}
+`,
+  }, "main.ts");
+  const [run] = toSarif(report).runs;
+
+  assertEquals(
+    run.results.map((result) => `${result.ruleId} ${result.message.text}`),
+    [
+      "no-sync-in-async/async-function 'load' blocks the event loop: load -> read -> Deno.readTextFileSync",
+      "no-sync-in-async/blocking-function 'read' blocks the event loop: read -> Deno.readTextFileSync",
+    ],
+  );
+});
+
+Deno.test("buildReport reports blocking entry point callbacks when enabled", () => {
+  const files = {
+    "main.ts": `function flush() {
+  Deno.writeTextFileSync("log.txt", "");
+}
+
+setInterval(flush, 1000);
+setTimeout(() => Deno.removeSync("tmp"), 10);
+addEventListener("unload", () => {});
+
+export function later() {
+  return Promise.resolve().then(() => flush());
+}
+`,
+  };
+  const findings = (options: AnalyzerOptions) =>
+    analyzeProject(files, "main.ts", options).report.findings.flatMap((
+      { functions },
+    ) => functions.map((func) => `${func.name} ${func.entryPoint}`));
+
+  assertEquals(findings({}), []);
+  assertEquals(findings({ entryPoints: true }), [
+    "flush setInterval",
+    "<anonymous@6:12> setTimeout",
+    "later.<anonymous@10:33> then",
+  ]);
+});
+
+Deno.test("buildReport ranks findings by the lag observed at runtime", () => {
+  withTempDir({
+    "main.ts": `function readConfig() {
+  return Deno.readTextFileSync("config.json");
+}
+
+function readCache() {
+  return Deno.readTextFileSync("cache.json");
+}
+
+export async function serve() {
+  return [readConfig(), readCache()];
+}
+
+export async function warmUp() {
+  return readCache();
+}
+
+export async function cleanUp() {
+  Deno.removeSync("cache.json");
+}
+`,
+  }, (dir) => {
+    const file = `${dir}/main.ts`;
+    const site = (fn: string, line: number, totalMs: number, count = 1) => ({
+      api: "Deno.readTextFileSync",
+      location: { file, line, column: 15 },
+      function: `${file}#${fn}`,
+      count,
+      totalMs,
+      maxMs: totalMs / count,
+    });
+    const lag: LagSummary = {
+      interval: 10,
+      budget: 50,
+      sites: [site("readConfig", 2, 400, 4), site("readCache", 6, 60)],
+    };
+    const analyzer = new TypeScriptAnalyzer();
+    analyzer.analyzeFile(file);
+    const report = buildReport(analyzer, lag);
+
+    assertEquals(
+      report.findings[0].functions.map((func) => [func.name, func.lag]),
+      [
+        ["serve", { count: 5, totalMs: 460, maxMs: 100 }],
+        ["warmUp", { count: 1, totalMs: 60, maxMs: 60 }],
+        ["cleanUp", undefined],
+      ],
+    );
+    assertEquals(
+      formatText(report).replaceAll(file, "main.ts").split("\n").slice(11, 14),
+      [
+        "Findings ranked by event-loop lag observed at runtime:",
+        "  1. serve (main.ts:9:1): 5 stalls, 460.0ms total, 100.0ms max",
+        "  2. warmUp (main.ts:13:1): 1 stall, 60.0ms total, 60.0ms max",
+      ],
+    );
+  });
+});
@@ -0,0 +1,432 @@
+// report.ts
+import * as path from "jsr:@std/path@1.0.8";
+import {
+  blockingCallLabel,
+  formatBlockingChain,
+  functionDisplayName,
+  type FunctionLocation,
+  type TypeScriptAnalyzer,
+  type UnresolvedDependency,
+} from "./analyzer.ts";
+import type { LagSummary } from "./runtime.ts";
+
+/** Output formats of the analyzer CLI */
+export const REPORT_FORMATS = ["text", "json", "sarif"] as const;
+export type ReportFormat = typeof REPORT_FORMATS[number];
+
+export interface BlockingFunctionReport {
+  id: string;
+  name: string;
+  location?: FunctionLocation;
+  /** The blocking API call the chain ends in */
+  rootCall?: { api: string; location: FunctionLocation };
+  /** Function IDs from this function to the one making the root call */
+  chain?: string[];
+  /** Scheduling API running the function, see `Config.entryPoints` */
+  entryPoint?: string;
+  /** Event-loop stalls observed at call sites the function reaches */
+  lag?: LagStats;
+}
+
+/** Event-loop stalls summed over call sites, see `LagSite` in runtime.ts */
+export interface LagStats {
+  count: number;
+  totalMs: number;
+  maxMs: number;
+}
+
+export interface AnnotationReport {
+  id: string;
+  kind: "blocking" | "nonblocking";
+  message: string;
+  location: FunctionLocation;
+}
+
+/** The async functions of a file that reach a blocking call */
+export interface FileFindings {
+  file: string;
+  functions: BlockingFunctionReport[];
+}
+
+/** Everything the analyzer CLI reports, as printed by `--format json` */
+export interface Report {
+  /**
+   * Async functions, and entry point callbacks with the `entryPoints` option,
+   * reaching a blocking call, grouped by file
+   */
+  findings: FileFindings[];
+  blockingFunctions: BlockingFunctionReport[];
+  staleAnnotations: AnnotationReport[];
+  /** Imports that were not analyzed because they couldn't be resolved */
+  unresolvedDependencies: UnresolvedDependency[];
+}
+
+/** Whether a report has anything that should fail a CI run */
+export function hasFindings(report: Report): boolean {
+  return report.findings.length > 0 || report.staleAnnotations.length > 0;
+}
+
+/** Groups findings by file, ordered by location, skipping unlocated ones */
+export function groupFindings(
+  functions: BlockingFunctionReport[],
+): FileFindings[] {
+  const findings = new Map<string, BlockingFunctionReport[]>();
+  for (const func of functions) {
+    if (!func.location) continue;
+    const functions = findings.get(func.location.file) ?? [];
+    functions.push(func);
+    findings.set(func.location.file, functions);
+  }
+  return [...findings.keys()].sort().map((file) => ({
+    file,
+    functions: findings.get(file)!.sort((a, b) =>
+      a.location!.line - b.location!.line ||
+      a.location!.column - b.location!.column
+    ),
+  }));
+}
+
+/**
+ * Sums the stalls of the `lag` sites made by function `id` or by functions it
+ * reaches in the analyzer's call graph
+ */
+function lagOf(
+  analyzer: TypeScriptAnalyzer,
+  id: string,
+  lag: LagSummary,
+): LagStats | undefined {
+  const { functionCalls } = analyzer.getState();
+  const reached = new Set([id]);
+  for (const current of reached) {
+    for (const callee of functionCalls.get(current) ?? []) reached.add(callee);
+  }
+  const sites = lag.sites.filter((site) => {
+    // Sites are matched by location, frame names differ from the analyzer's
+    const { location } = site;
+    const fn = (location &&
+      analyzer.functionAt(location.file, location.line, location.column)) ??
+      site.function;
+    return fn !== undefined && reached.has(fn);
+  });
+  if (sites.length === 0) return undefined;
+  return {
+    count: sites.reduce((count, site) => count + site.count, 0),
+    totalMs: sites.reduce((total, site) => total + site.totalMs, 0),
+    maxMs: Math.max(...sites.map((site) => site.maxMs)),
+  };
+}
+
+/**
+ * Collects the findings of an analyzer that has analyzed its files, with the
+ * event-loop lag of a `LagMonitor` summary attributed to the functions whose
+ * calls reach the stalled call sites
+ */
+export function buildReport(
+  analyzer: TypeScriptAnalyzer,
+  lag?: LagSummary,
+): Report {
+  const state = analyzer.getState();
+  const blockingFunctions = [...state.blockingFunctions].sort().map((id) => {
+    const chain = analyzer.getBlockingChain(id);
+    const entryPoint = analyzer.entryPointOf(id);
+    const stats = lag && lagOf(analyzer, id, lag);
+    return {
+      id,
+      name: functionDisplayName(id),
+      location: state.functionLocations.get(id),
+      rootCall: chain && {
+        api: blockingCallLabel(chain.root.call),
+        location: chain.root.location,
+      },
+      chain: chain?.functions,
+      ...(entryPoint && { entryPoint }),
+      ...(stats && { lag: stats }),
+    };
+  });
+
+  return {
+    findings: groupFindings(
+      blockingFunctions.filter((func) =>
+        state.asyncFunctions.has(func.id) || func.entryPoint
+      ),
+    ),
+    blockingFunctions,
+    staleAnnotations: analyzer.getAnnotationWarnings().map((warning) => ({
+      id: warning.id,
+      kind: warning.annotation.kind,
+      message: warning.message,
+      location: warning.annotation.location,
+    })),
+    unresolvedDependencies: [...state.unresolvedDependencies.values()],
+  };
+}
+
+function formatLocation(location: FunctionLocation): string {
+  return `${location.file}:${location.line}:${location.column}`;
+}
+
+function formatChain(func: BlockingFunctionReport): string | undefined {
+  if (!func.chain || !func.rootCall) return undefined;
+  return formatBlockingChain({
+    functions: func.chain,
+    root: {
+      call: { name: func.rootCall.api },
+      location: func.rootCall.location,
+    },
+  });
+}
+
+/** Formats a report as the human-readable CLI output */
+export function formatText(report: Report): string {
+  const lines: string[] = [];
+  if (report.findings.length > 0) {
+    lines.push("", "Error: Found async functions reaching blocking calls:");
+    for (const { file, functions } of report.findings) {
+      lines.push("", file);
+      for (const func of functions) {
+        const { line, column } = func.location!;
+        const entryPoint = func.entryPoint
+          ? ` passed to ${func.entryPoint}`
+          : "";
+        lines.push(`  - ${func.name} (${line}:${column})${entryPoint}`);
+        const chain = formatChain(func);
+        if (chain) lines.push(`      ${chain}`);
+      }
+    }
+  }
+
+  const ranked = report.findings
+    .flatMap(({ functions }) => functions)
+    .filter((func) => func.lag)
+    .sort((a, b) => b.lag!.totalMs - a.lag!.totalMs);
+  if (ranked.length > 0) {
+    lines.push("", "Findings ranked by event-loop lag observed at runtime:");
+    for (const [index, func] of ranked.entries()) {
+      const { count, totalMs, maxMs } = func.lag!;
+      lines.push(
+        `  ${index + 1}. ${func.name} (${
+          formatLocation(func.location!)
+        }): ${count} stall${count === 1 ? "" : "s"}, ${
+          totalMs.toFixed(1)
+        }ms total, ${maxMs.toFixed(1)}ms max`,
+      );
+    }
+  }
+
+  if (report.blockingFunctions.length > 0) {
+    lines.push(
+      "",
+      "Warning: Found blocking functions in the following locations:",
+    );
+    for (const func of report.blockingFunctions) {
+      const location = func.location
+        ? formatLocation(func.location)
+        : "unknown location";
+      lines.push(`  - ${func.name} (in ${location})`);
+      const chain = formatChain(func);
+      if (chain) lines.push(`      ${chain}`);
+    }
+  } else {
+    lines.push("", "No blocking functions found.");
+  }
+
+  if (report.staleAnnotations.length > 0) {
+    lines.push("", "Warning: Found stale annotations:");
+    for (const annotation of report.staleAnnotations) {
+      lines.push(
+        `  - ${annotation.message} (in ${formatLocation(annotation.location)})`,
+      );
+    }
+  }
+
+  if (report.unresolvedDependencies.length > 0) {
+    lines.push("", "Note: Unresolved dependencies were not analyzed:");
+    for (const dependency of report.unresolvedDependencies) {
+      lines.push(
+        `  - ${dependency.specifier} (imported from ${dependency.importer}): ${dependency.reason}`,
+      );
+    }
+  }
+  return lines.join("\n");
+}
+
+/** A location in a SARIF log */
+export interface SarifLocation {
+  id?: number;
+  physicalLocation: {
+    artifactLocation: { uri: string; uriBaseId?: string };
+    region: { startLine: number; startColumn: number };
+  };
+  message?: { text: string };
+}
+
+export interface SarifResult {
+  ruleId: string;
+  ruleIndex?: number;
+  level: "error" | "warning" | "note";
+  message: { text: string };
+  locations: SarifLocation[];
+  relatedLocations?: SarifLocation[];
+}
+
+/** The parts of a SARIF 2.1.0 log `toSarif` emits */
+export interface SarifLog {
+  $schema: string;
+  version: "2.1.0";
+  runs: {
+    tool: {
+      driver: {
+        name: string;
+        informationUri: string;
+        rules: { id: string; shortDescription: { text: string } }[];
+      };
+    };
+    originalUriBaseIds: Record<string, { uri: string }>;
+    invocations: {
+      executionSuccessful: boolean;
+      toolExecutionNotifications: Omit<SarifResult, "ruleId">[];
+    }[];
+    results: SarifResult[];
+  }[];
+}
+
+/** SARIF rules of the findings, see `toSarif` */
+const SARIF_RULES = [
+  {
+    id: "no-sync-in-async/blocking-function",
+    shortDescription: {
+      text: "Function reaches a synchronous, event loop blocking API",
+    },
+  },
+  {
+    id: "no-sync-in-async/stale-annotation",
+    shortDescription: {
+      text:
+        "@blocking or @nonblocking annotation no longer matches the analysis",
+    },
+  },
+  {
+    id: "no-sync-in-async/async-function",
+    shortDescription: {
+      text: "Async function reaches a synchronous, event loop blocking API",
+    },
+  },
+];
+
+/**
+ * Converts a report to a SARIF 2.1.0 log. File URIs are relative to `root`
+ * (the `%SRCROOT%` base) so code scanning dashboards can map them to the
+ * repository.
+ */
+export function toSarif(
+  report: Report,
+  root: string = Deno.cwd(),
+): SarifLog {
+  const sarifLocation = (location: FunctionLocation): SarifLocation => {
+    const relativePath = path.relative(root, location.file);
+    // Files outside of the root keep an absolute URI
+    const artifactLocation = relativePath.startsWith("..")
+      ? { uri: path.toFileUrl(location.file).href }
+      : { uri: relativePath.split(path.sep).join("/"), uriBaseId: "%SRCROOT%" };
+    return {
+      physicalLocation: {
+        artifactLocation,
+        region: { startLine: location.line, startColumn: location.column },
+      },
+    };
+  };
+
+  const functionResult = (
+    func: BlockingFunctionReport,
+    ruleIndex: number,
+    level: SarifResult["level"],
+  ): SarifResult => ({
+    ruleId: SARIF_RULES[ruleIndex].id,
+    ruleIndex,
+    level,
+    message: {
+      text: func.chain && func.rootCall
+        ? `'${func.name}' blocks the event loop: ${
+          func.chain.map(functionDisplayName).join(" -> ")
+        } -> ${func.rootCall.api}`
+        : `'${func.name}' blocks the event loop`,
+    },
+    locations: [sarifLocation(func.location!)],
+    relatedLocations: func.rootCall
+      ? [{
+        id: 0,
+        ...sarifLocation(func.rootCall.location),
+        message: { text: func.rootCall.api },
+      }]
+      : undefined,
+  });
+
+  const findings = report.findings.flatMap(({ functions }) => functions);
+  // Async functions are reported as findings only
+  const reported = new Set(findings.map((func) => func.id));
+  const results = [
+    ...findings.map((func) => functionResult(func, 2, "error")),
+    ...report.blockingFunctions
+      .filter((func) => func.location && !reported.has(func.id))
+      .map((func) => functionResult(func, 0, "warning")),
+    ...report.staleAnnotations.map((annotation): SarifResult => ({
+      ruleId: SARIF_RULES[1].id,
+      ruleIndex: 1,
+      level: "warning",
+      message: { text: annotation.message },
+      locations: [sarifLocation(annotation.location)],
+    })),
+  ];
+
+  return {
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    version: "2.1.0",
+    runs: [{
+      tool: {
+        driver: {
+          name: "no-sync-in-async",
+          informationUri:
+            "https://github.com/sigmaSd/deno-no-sync-in-async-lint",
+          rules: SARIF_RULES,
+        },
+      },
+      originalUriBaseIds: {
+        "%SRCROOT%": { uri: path.toFileUrl(root).href.replace(/\/?$/, "/") },
+      },
+      invocations: [{
+        executionSuccessful: true,
+        toolExecutionNotifications: report.unresolvedDependencies.map((
+          dependency,
+        ) => ({
+          level: "note",
+          message: {
+            text:
+              `Unresolved dependency ${dependency.specifier}: ${dependency.reason}`,
+          },
+          locations: [sarifLocation({
+            file: dependency.importer,
+            line: 1,
+            column: 1,
+          })],
+        })),
+      }],
+      results,
+    }],
+  };
+}
+
+/** Formats a report in one of the CLI output formats */
+export function formatReport(
+  report: Report,
+  format: ReportFormat,
+  root?: string,
+): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(report, null, 2);
+    case "sarif":
+      return JSON.stringify(toSarif(report, root), null, 2);
+    case "text":
+      return formatText(report);
+  }
+}
@@ -0,0 +1,186 @@
+import { assertEquals } from "jsr:@std/assert@1.0.11";
+import { createHash } from "node:crypto";
+import { TypeScriptAnalyzer } from "./analyzer.ts";
+import { ModuleResolver } from "./resolver.ts";
+import { withTempDir } from "./test_utils.ts";
+
+/** Cache entries of remote `files`, in the layout of `DENO_DIR/remote` */
+function remoteCache(files: Record<string, string>): Record<string, string> {
+  return Object.fromEntries(
+    Object.entries(files).map(([url, content]) => {
+      const { hostname, pathname } = new URL(url);
+      const hash = createHash("sha256").update(pathname).digest("hex");
+      const metadata = JSON.stringify({ headers: {}, url, time: 0 });
+      return [
+        `cache/remote/https/${hostname}/${hash}`,
+        `${content}\n// denoCacheMetadata=${metadata}`,
+      ];
+    }),
+  );
+}
+
+const project = {
+  ...remoteCache({
+    "https://jsr.io/@std/fs/meta.json": JSON.stringify({
+      versions: { "1.0.0": {}, "1.2.0": {}, "2.0.0": {} },
+    }),
+    "https://jsr.io/@std/fs/1.2.0_meta.json": JSON.stringify({
+      exports: { ".": "./mod.ts", "./empty-dir": "./empty_dir.ts" },
+    }),
+    "https://jsr.io/@std/fs/1.2.0/mod.ts":
+      `export { emptyDirSync, resetDirSync } from "./empty_dir.ts";`,
+    "https://jsr.io/@std/fs/1.2.0/empty_dir.ts": `
+      export function emptyDirSync(dir: string) {
+        Deno.removeSync(dir, { recursive: true });
+      }
+
+      // Not among the bundled blocking exports of jsr:@std/fs
+      export function resetDirSync(dir: string) {
+        emptyDirSync(dir);
+      }
+    `,
+    "https://deno.land/x/tmp@1.0.0/mod.ts": `
+      export function tmpDirSync() {
+        return Deno.makeTempDirSync();
+      }
+    `,
+  }),
+  "node_modules/fast-glob/package.json": JSON.stringify({
+    name: "fast-glob",
+    version: "3.3.2",
+    exports: { ".": { import: "./out/index.mjs", require: "./out/index.js" } },
+  }),
+  "node_modules/fast-glob/out/index.mjs": `
+    import { readdirSync } from "node:fs";
+    export function globSync() {
+      return readdirSync(".");
+    }
+  `,
+  "main.ts": `
+    import { emptyDirSync, resetDirSync } from "jsr:@std/fs@^1.0.0";
+    import { tmpDirSync } from "https://deno.land/x/tmp@1.0.0/mod.ts";
+    import { globSync } from "npm:fast-glob@3";
+    import { missing } from "jsr:@std/missing@1";
+
+    export async function clean() {
+      emptyDirSync("out");
+    }
+
+    export async function reset() {
+      resetDirSync("out");
+    }
+
+    export async function tmp() {
+      return tmpDirSync();
+    }
+
+    export async function glob() {
+      return globSync();
+    }
+  `,
+};
+
+Deno.test("ModuleResolver resolves jsr:, https: and npm: specifiers offline", () => {
+  withTempDir(project, (dir) => {
+    const resolver = new ModuleResolver(`${dir}/cache`);
+    const importer = `${dir}/main.ts`;
+
+    const jsr = resolver.resolve("jsr:@std/fs@^1.0.0/empty-dir", importer);
+    assertEquals(
+      jsr,
+      resolver.resolve("https://jsr.io/@std/fs/1.2.0/empty_dir.ts", importer),
+    );
+    assertEquals(jsr?.kind, "file");
+    assertEquals(resolver.resolve("npm:fast-glob@^3.1", importer), {
+      kind: "file",
+      path: `${dir}/node_modules/fast-glob/out/index.mjs`,
+    });
+    assertEquals(resolver.resolve("jsr:@std/fs@^3", importer), {
+      kind: "unresolved",
+      reason: "no version of jsr:@std/fs@^3 is in the Deno cache",
+    });
+    assertEquals(resolver.resolve("node:fs", importer), undefined);
+  });
+});
+
+Deno.test("analyzer follows cached remote imports and notes unresolved ones", () => {
+  withTempDir(project, (dir) => {
+    const analyzer = new TypeScriptAnalyzer({ cacheDir: `${dir}/cache` });
+    analyzer.analyzeFile(`${dir}/main.ts`);
+    const state = analyzer.getState();
+
+    for (const name of ["clean", "reset", "tmp", "glob"]) {
+      assertEquals(state.blockingFunctions.has(`${dir}/main.ts#${name}`), true);
+    }
+    // Bundled blocking exports take precedence over the cached module
+    assertEquals(state.rootCalls.get(`${dir}/main.ts#clean`)?.call, {
+      module: "jsr:@std/fs",
+      name: "emptyDirSync",
+      replacement: "emptyDir",
+    });
+    assertEquals([...state.unresolvedDependencies.values()], [{
+      specifier: "jsr:@std/missing@1",
+      importer: `${dir}/main.ts`,
+      reason: "no version of jsr:@std/missing@1 is in the Deno cache",
+    }]);
+  });
+});
+
+const workspace = {
+  "deno.json": JSON.stringify({
+    workspace: ["./packages/fs", "./packages/app"],
+    imports: { "@/": "./shared/", "@std/fs": "jsr:@std/fs@^1.0.0" },
+  }),
+  "shared/log.tsx": "export function log() {}",
+  "packages/fs/deno.json": JSON.stringify({
+    name: "@acme/fs",
+    exports: { ".": "./mod.ts", "./read": "./read.mts" },
+  }),
+  "packages/fs/mod.ts": `export * from "./read.js";`,
+  "packages/fs/read.mts": "export function read() {}",
+  "packages/app/deno.json": JSON.stringify({
+    importMap: "./import_map.json",
+  }),
+  "packages/app/import_map.json": JSON.stringify({
+    imports: { "utils": "./src/utils" },
+  }),
+  "packages/app/src/utils/index.ts": "export function util() {}",
+  "packages/app/main.ts": "",
+};
+
+Deno.test("ModuleResolver follows deno.json import maps and workspace members", () => {
+  withTempDir({ ...project, ...workspace }, (dir) => {
+    const resolver = new ModuleResolver(`${dir}/cache`);
+    const importer = `${dir}/packages/app/main.ts`;
+    const resolve = (specifier: string) => {
+      const resolution = resolver.resolve(specifier, importer);
+      return resolution?.kind === "file"
+        ? resolution.path.slice(dir.length + 1)
+        : resolution;
+    };
+
+    assertEquals(resolve("@/log"), "shared/log.tsx");
+    assertEquals(resolve("@acme/fs"), "packages/fs/mod.ts");
+    assertEquals(resolve("jsr:@acme/fs@^1/read"), "packages/fs/read.mts");
+    assertEquals(resolve("./src/utils"), "packages/app/src/utils/index.ts");
+    assertEquals(resolve("utils"), "packages/app/src/utils/index.ts");
+    assertEquals(
+      resolve("@std/fs/empty-dir"),
+      resolve("jsr:@std/fs@^1.0.0/empty-dir"),
+    );
+    assertEquals(
+      resolver.resolve("./read.js", `${dir}/packages/fs/mod.ts`),
+      { kind: "file", path: `${dir}/packages/fs/read.mts` },
+    );
+    assertEquals(resolve("fs"), undefined);
+    assertEquals(resolve("left-pad"), {
+      kind: "unresolved",
+      reason:
+        "'left-pad' is not in an import map, a workspace member or node_modules",
+    });
+    assertEquals(resolve("./missing"), {
+      kind: "unresolved",
+      reason: `${dir}/packages/app/missing was not found`,
+    });
+  });
+});
@@ -0,0 +1,688 @@
+// resolver.ts
+import { createHash } from "node:crypto";
+import { builtinModules } from "node:module";
+import * as path from "jsr:@std/path@1.0.8";
+import { readJsonc } from "./config.ts";
+import { readDenoJson, workspaceMembers } from "./project.ts";
+
+/**
+ * Where an import specifier leads: a file to analyze, or a dependency that
+ * can't be analyzed and why.
+ */
+export type Resolution =
+  | { kind: "file"; path: string }
+  | { kind: "unresolved"; reason: string };
+
+/** Location of the Deno cache, following the `DENO_DIR` conventions */
+export function denoDir(): string {
+  const explicit = Deno.env.get("DENO_DIR");
+  if (explicit) return path.resolve(explicit);
+  const home = Deno.env.get("HOME") ?? Deno.env.get("USERPROFILE") ?? "";
+  switch (Deno.build.os) {
+    case "darwin":
+      return path.join(home, "Library", "Caches", "deno");
+    case "windows":
+      return path.join(
+        Deno.env.get("LOCALAPPDATA") ?? path.join(home, "AppData", "Local"),
+        "deno",
+      );
+    default:
+      return path.join(
+        Deno.env.get("XDG_CACHE_HOME") ?? path.join(home, ".cache"),
+        "deno",
+      );
+  }
+}
+
+function readText(filePath: string): string | undefined {
+  try {
+    return Deno.readTextFileSync(filePath);
+  } catch (error) {
+    if (error instanceof Deno.errors.NotFound) return undefined;
+    throw error;
+  }
+}
+
+function isFile(filePath: string): boolean {
+  try {
+    return Deno.statSync(filePath).isFile;
+  } catch {
+    return false;
+  }
+}
+
+const CACHE_METADATA_PREFIX = "\n// denoCacheMetadata=";
+
+interface CacheMetadata {
+  headers?: Record<string, string>;
+  url?: string;
+}
+
+type Version = [number, number, number];
+
+function parseVersion(version: string): Version | undefined {
+  const match = /^v?(\d+)\.(\d+)\.(\d+)$/.exec(version);
+  return match ? [+match[1], +match[2], +match[3]] : undefined;
+}
+
+function compareVersions(a: Version, b: Version): number {
+  return a[0] - b[0] || a[1] - b[1] || a[2] - b[2];
+}
+
+/**
+ * Whether `version` satisfies a version requirement: an exact version, a
+ * `^`/`~`/`>=` range, a partial version such as `1` or `1.2`, or nothing.
+ * Prereleases are only matched exactly.
+ */
+function satisfies(version: string, range: string): boolean {
+  if (version === range) return true;
+  const parsed = parseVersion(version);
+  if (!parsed) return false;
+  if (range === "" || range === "*" || range === "latest") return true;
+
+  const match = /^(\^|~|>=)?v?(\d+)(?:\.(\d+|x|\*))?(?:\.(\d+|x|\*))?$/.exec(
+    range,
+  );
+  if (!match) return false;
+  const [, operator, ...parts] = match;
+  const numbers = parts
+    .filter((part) => part !== undefined && /^\d+$/.test(part))
+    .map(Number);
+  const lower: Version = [numbers[0] ?? 0, numbers[1] ?? 0, numbers[2] ?? 0];
+  if (compareVersions(parsed, lower) < 0) return false;
+  if (operator === ">=") return true;
+
+  // Number of leading components that must stay the same
+  let fixed = numbers.length;
+  if (operator === "^") {
+    fixed = lower[0] > 0 || numbers.length === 1
+      ? 1
+      : lower[1] > 0 || numbers.length === 2
+      ? 2
+      : 3;
+  } else if (operator === "~") {
+    fixed = Math.min(numbers.length, 2);
+  }
+  return parsed.slice(0, fixed).every((part, i) => part === lower[i]);
+}
+
+/** Picks the highest of `versions` satisfying `range` */
+function maxSatisfying(
+  versions: Iterable<string>,
+  range: string,
+): string | undefined {
+  let best: { version: string; parsed: Version } | undefined;
+  for (const version of versions) {
+    const parsed = parseVersion(version);
+    if (!satisfies(version, range)) continue;
+    if (!parsed) return version;
+    if (!best || compareVersions(parsed, best.parsed) > 0) {
+      best = { version, parsed };
+    }
+  }
+  return best?.version;
+}
+
+/** Splits `@scope/name@range/sub/path` into its parts */
+function parsePackageSpecifier(specifier: string) {
+  const match = /^(@[^/@]+\/[^/@]+|[^/@]+)(?:@([^/]*))?(\/.*)?$/.exec(
+    specifier,
+  );
+  if (!match) return undefined;
+  return { name: match[1], range: match[2] ?? "", subpath: match[3] ?? "" };
+}
+
+/** Extensions tried for extensionless and `.js` local imports */
+const SLOPPY_EXTENSIONS = [".ts", ".tsx", ".mts", ".js", ".jsx", ".mjs"];
+
+/** Files tried, in order, when a local import points to a directory */
+const INDEX_FILES = [
+  "index.ts",
+  "index.tsx",
+  "index.js",
+  "index.mjs",
+  "mod.ts",
+];
+
+interface ImportMap {
+  imports: Record<string, string>;
+  /** Scoped imports, by absolute path prefix of the importers */
+  scopes: [string, Record<string, string>][];
+  /** Directory relative targets are resolved from */
+  baseDir: string;
+}
+
+/** A `deno.json(c)` and what it contributes to module resolution */
+interface DenoConfig {
+  dir: string;
+  importMap: ImportMap;
+  /** Name and exports of the config, when it is a workspace package */
+  name?: string;
+  exports: Record<string, string>;
+  /** Config of the workspace this one is the root or a member of */
+  workspaceRoot?: DenoConfig;
+  members: DenoConfig[];
+}
+
+function stringRecord(value: unknown): Record<string, string> {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return {};
+  return Object.fromEntries(
+    Object.entries(value).filter(([, target]) => typeof target === "string"),
+  );
+}
+
+function readImportMap(
+  json: Record<string, unknown>,
+  baseDir: string,
+): ImportMap {
+  return {
+    imports: stringRecord(json.imports),
+    scopes: Object.entries(json.scopes ?? {})
+      .map(([scope, imports]): [string, Record<string, string>] => [
+        path.resolve(baseDir, scope),
+        stringRecord(imports),
+      ])
+      // Most specific scope first
+      .sort(([a], [b]) => b.length - a.length),
+    baseDir,
+  };
+}
+
+/**
+ * Maps `specifier` with import map `imports`: exact keys first, then the
+ * longest matching `/`-terminated prefix key. Like Deno, keys mapped to
+ * `jsr:` or `npm:` packages also match their subpaths.
+ */
+function mapSpecifier(
+  specifier: string,
+  imports: Record<string, string>,
+): string | undefined {
+  if (specifier in imports) return imports[specifier];
+  let best: { key: string; target: string } | undefined;
+  for (const [key, target] of Object.entries(imports)) {
+    const prefix = key.endsWith("/")
+      ? key
+      : /^(jsr|npm):/.test(target)
+      ? `${key}/`
+      : undefined;
+    if (
+      prefix && specifier.startsWith(prefix) &&
+      prefix.length > (best?.key.length ?? 0)
+    ) {
+      best = {
+        key: prefix,
+        target: key.endsWith("/") ? target : `${target}/`,
+      };
+    }
+  }
+  return best && best.target + specifier.slice(best.key.length);
+}
+
+/** Conditions tried, in order, when resolving package.json `exports` */
+const EXPORT_CONDITIONS = ["deno", "import", "module", "default", "node"];
+
+function resolveExportTarget(target: unknown): string | undefined {
+  if (typeof target === "string") return target;
+  if (Array.isArray(target)) {
+    return target.map(resolveExportTarget).find((entry) => entry);
+  }
+  if (target && typeof target === "object") {
+    const conditions = target as Record<string, unknown>;
+    for (const condition of [...EXPORT_CONDITIONS, "require"]) {
+      if (condition in conditions) {
+        const resolved = resolveExportTarget(conditions[condition]);
+        if (resolved) return resolved;
+      }
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Resolves import specifiers to files on disk without touching the network:
+ * relative paths, and `jsr:`, `npm:` and `https:` specifiers whose sources
+ * were already downloaded to the Deno cache or to a `node_modules` directory.
+ * Bare specifiers go through the import map of the nearest `deno.json(c)`
+ * and of its workspace root, then the workspace members' package names and
+ * finally `node_modules`.
+ *
+ * Files of the remote cache are named after a hash of their URL, so the URL
+ * of each cached file is kept to resolve the relative imports it makes.
+ */
+export class ModuleResolver {
+  /** URL of each cached remote module, by cache file path */
+  private remoteUrls = new Map<string, string>();
+  /** Package metadata, memoised per package (version) */
+  private packages = new Map<string, Record<string, unknown> | undefined>();
+  /** Resolutions of `jsr:` specifiers, which don't depend on the importer */
+  private jsrResolutions = new Map<string, Resolution>();
+  /** Nearest `deno.json(c)` of each directory looked up */
+  private configs = new Map<string, DenoConfig | undefined>();
+  private jsrUrl: string;
+
+  constructor(private cacheDir: string = denoDir()) {
+    this.jsrUrl = (Deno.env.get("JSR_URL") ?? "https://jsr.io/")
+      .replace(/\/?$/, "/");
+  }
+
+  /**
+   * Resolves `specifier` imported from `importer`. Returns `undefined` for
+   * specifiers that don't lead to analyzable sources, such as `node:` ones.
+   */
+  resolve(specifier: string, importer: string): Resolution | undefined {
+    const importerUrl = this.remoteUrls.get(importer);
+    if (importerUrl && /^\.{0,2}\//.test(specifier)) {
+      return this.resolveRemote(new URL(specifier, importerUrl).href);
+    }
+    if (/^\.{0,2}\//.test(specifier)) {
+      return this.resolveLocalFile(
+        path.resolve(path.dirname(importer), specifier),
+      );
+    }
+    if (specifier.startsWith("file:")) {
+      return this.resolveLocalFile(path.fromFileUrl(specifier));
+    }
+    if (specifier.startsWith("https:") || specifier.startsWith("http:")) {
+      return this.resolveRemote(specifier);
+    }
+    if (specifier.startsWith("node:")) return undefined;
+
+    const config = importerUrl
+      ? undefined
+      : this.configAt(path.dirname(importer));
+    if (specifier.startsWith("jsr:")) {
+      return this.resolveWorkspacePackage(specifier.slice(4), config) ??
+        this.resolveCachedJsr(specifier);
+    }
+    if (specifier.startsWith("npm:")) {
+      return this.resolveNpm(specifier.slice(4).replace(/^\//, ""), importer);
+    }
+
+    const mapped = this.resolveWithImportMaps(specifier, importer, config);
+    if (mapped !== undefined) return mapped ?? undefined;
+    const member = this.resolveWorkspacePackage(specifier, config);
+    if (member) return member;
+    if (builtinModules.includes(specifier)) return undefined;
+    const npm = this.resolveNpm(specifier, importer);
+    return npm.kind === "file" ? npm : {
+      kind: "unresolved",
+      reason:
+        `'${specifier}' is not in an import map, a workspace member or node_modules`,
+    };
+  }
+
+  /**
+   * Returns the jsr or npm package `specifier` imports from, such as
+   * `jsr:@std/fs` or `npm:fs-extra`, following import maps. Bare specifiers
+   * that aren't mapped are npm packages.
+   */
+  packageOf(specifier: string, importer: string): string | undefined {
+    const registry = /^(jsr|npm):\/?/.exec(specifier);
+    if (registry) {
+      const name = parsePackageSpecifier(specifier.slice(registry[0].length))
+        ?.name;
+      return name && `${registry[1]}:${name}`;
+    }
+    const jsrUrl = /^https:\/\/jsr\.io\/(@[^/]+\/[^/]+)\//.exec(specifier);
+    if (jsrUrl) return `jsr:${jsrUrl[1]}`;
+    if (/^[a-z]+:/.test(specifier) || /^\.{0,2}\//.test(specifier)) {
+      return undefined;
+    }
+
+    const importerUrl = this.remoteUrls.get(importer);
+    const config = importerUrl
+      ? undefined
+      : this.configAt(path.dirname(importer));
+    const mapped = this.mapWithImportMaps(specifier, importer, config);
+    if (mapped) return this.packageOf(mapped.target, importer);
+    if (builtinModules.includes(specifier)) return undefined;
+    const name = parsePackageSpecifier(specifier)?.name;
+    return name && `npm:${name}`;
+  }
+
+  private resolveCachedJsr(specifier: string): Resolution {
+    let resolution = this.jsrResolutions.get(specifier);
+    if (!resolution) {
+      resolution = this.resolveJsr(specifier.slice(4).replace(/^\//, ""));
+      this.jsrResolutions.set(specifier, resolution);
+    }
+    return resolution;
+  }
+
+  /**
+   * Resolves a local path like Deno does with sloppy imports: the exact
+   * file, the path with a source extension, or the index file of a directory.
+   */
+  private resolveLocalFile(filePath: string): Resolution {
+    if (isFile(filePath)) return { kind: "file", path: filePath };
+    const stem = filePath.replace(/\.js$/, "");
+    const candidates = [
+      ...SLOPPY_EXTENSIONS.map((extension) => `${stem}${extension}`),
+      ...INDEX_FILES.map((name) => path.join(filePath, name)),
+    ];
+    const found = candidates.find(isFile);
+    return found
+      ? { kind: "file", path: found }
+      : { kind: "unresolved", reason: `${filePath} was not found` };
+  }
+
+  /** Nearest `deno.json(c)` at or above `dir`, with its workspace */
+  private configAt(dir: string): DenoConfig | undefined {
+    if (this.configs.has(dir)) return this.configs.get(dir);
+    const json = readDenoJson(dir);
+    const parent = path.dirname(dir);
+    let config: DenoConfig | undefined;
+    if (json) {
+      config = this.readConfig(dir, json);
+      const parentConfig = parent === dir ? undefined : this.configAt(parent);
+      const root = parentConfig?.workspaceRoot ?? parentConfig;
+      if (!config.workspaceRoot && root?.members.some((m) => m.dir === dir)) {
+        config = root.members.find((member) => member.dir === dir)!;
+      }
+    } else if (parent !== dir) {
+      config = this.configAt(parent);
+    }
+    this.configs.set(dir, config);
+    return config;
+  }
+
+  private readConfig(dir: string, json: Record<string, unknown>): DenoConfig {
+    const importMapPath = typeof json.importMap === "string"
+      ? path.resolve(dir, json.importMap)
+      : undefined;
+    const importMapJson = importMapPath ? readJsonc(importMapPath) : json;
+    const exports = typeof json.exports === "string"
+      ? { ".": json.exports }
+      : stringRecord(json.exports);
+    const config: DenoConfig = {
+      dir,
+      importMap: readImportMap(
+        importMapJson ?? {},
+        importMapPath ? path.dirname(importMapPath) : dir,
+      ),
+      name: typeof json.name === "string" ? json.name : undefined,
+      exports,
+      members: [],
+    };
+    for (const memberDir of workspaceMembers(dir, json)) {
+      const memberJson = readDenoJson(memberDir);
+      if (!memberJson) continue;
+      const member = this.readConfig(memberDir, memberJson);
+      member.workspaceRoot = config;
+      config.members.push(member);
+      this.configs.set(memberDir, member);
+    }
+    return config;
+  }
+
+  /**
+   * Maps `specifier` with the import maps applying to `importer`, returning
+   * the target and the directory relative targets are resolved from
+   */
+  private mapWithImportMaps(
+    specifier: string,
+    importer: string,
+    config: DenoConfig | undefined,
+  ): { target: string; baseDir: string } | undefined {
+    const maps = [config?.importMap, config?.workspaceRoot?.importMap]
+      .filter((map): map is ImportMap => map !== undefined);
+    for (const map of maps) {
+      const scopes = map.scopes
+        .filter(([scope]) => importer.startsWith(scope))
+        .map(([, imports]) => imports);
+      for (const imports of [...scopes, map.imports]) {
+        const target = mapSpecifier(specifier, imports);
+        if (target !== undefined) return { target, baseDir: map.baseDir };
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Resolves a bare specifier with the import maps of `config` and of its
+   * workspace root. Returns `null` for specifiers mapped to sources that
+   * aren't analyzed, and `undefined` when no map has the specifier.
+   */
+  private resolveWithImportMaps(
+    specifier: string,
+    importer: string,
+    config: DenoConfig | undefined,
+  ): Resolution | null | undefined {
+    const mapped = this.mapWithImportMaps(specifier, importer, config);
+    if (!mapped) return undefined;
+    const { target, baseDir } = mapped;
+    if (/^\.{0,2}\//.test(target)) {
+      return this.resolveLocalFile(path.resolve(baseDir, target));
+    }
+    // Targets are full specifiers, e.g. `jsr:@std/path@^1`
+    return /^[a-z]+:/.test(target) ? this.resolve(target, importer) ?? null : {
+      kind: "unresolved",
+      reason: `'${specifier}' is mapped to invalid target '${target}'`,
+    };
+  }
+
+  /**
+   * Resolves a specifier naming a package of the importer's workspace, such
+   * as `@scope/utils/fs` or `jsr:@scope/utils@^1/fs`.
+   */
+  private resolveWorkspacePackage(
+    specifier: string,
+    config: DenoConfig | undefined,
+  ): Resolution | undefined {
+    const root = config?.workspaceRoot ?? config;
+    const parsed = parsePackageSpecifier(specifier.replace(/^\//, ""));
+    const member = root?.members.find((member) => member.name === parsed?.name);
+    if (!member || !parsed) return undefined;
+    const target = member.exports[`.${parsed.subpath}`];
+    if (!target) {
+      return {
+        kind: "unresolved",
+        reason:
+          `workspace member ${member.name} doesn't export '.${parsed.subpath}'`,
+      };
+    }
+    return this.resolveLocalFile(path.resolve(member.dir, target));
+  }
+
+  /** Path of the cache entry of `url` in `DENO_DIR/remote` */
+  private cachePath(url: URL): string {
+    const host = url.port ? `${url.hostname}_PORT${url.port}` : url.hostname;
+    const hash = createHash("sha256")
+      .update(url.pathname + url.search)
+      .digest("hex");
+    return path.join(
+      this.cacheDir,
+      "remote",
+      url.protocol.slice(0, -1),
+      host,
+      hash,
+    );
+  }
+
+  /**
+   * Reads a cached remote file and its metadata, which recent Deno versions
+   * append to the file and older ones keep in a `.metadata.json` sibling.
+   */
+  private readCached(url: string) {
+    const cachePath = this.cachePath(new URL(url));
+    let content = readText(cachePath);
+    if (content === undefined) return undefined;
+    let metadata: CacheMetadata | undefined;
+    const metadataStart = content.lastIndexOf(CACHE_METADATA_PREFIX);
+    if (metadataStart !== -1) {
+      metadata = JSON.parse(
+        content.slice(metadataStart + CACHE_METADATA_PREFIX.length),
+      );
+      content = content.slice(0, metadataStart);
+    } else {
+      const legacy = readText(`${cachePath}.metadata.json`);
+      metadata = legacy ? JSON.parse(legacy) : undefined;
+    }
+    return { cachePath, content, metadata };
+  }
+
+  private resolveRemote(url: string, redirects = 0): Resolution {
+    const cached = this.readCached(url);
+    if (!cached) {
+      return { kind: "unresolved", reason: `${url} is not in the Deno cache` };
+    }
+    const location = cached.metadata?.headers?.location;
+    if (location && redirects < 10) {
+      return this.resolveRemote(new URL(location, url).href, redirects + 1);
+    }
+    this.remoteUrls.set(cached.cachePath, url);
+    return { kind: "file", path: cached.cachePath };
+  }
+
+  private readCachedJson(url: string): Record<string, unknown> | undefined {
+    if (!this.packages.has(url)) {
+      const cached = this.readCached(url);
+      this.packages.set(url, cached && JSON.parse(cached.content));
+    }
+    return this.packages.get(url);
+  }
+
+  private resolveJsr(specifier: string): Resolution {
+    const parsed = parsePackageSpecifier(specifier);
+    if (!parsed?.name.startsWith("@")) {
+      return {
+        kind: "unresolved",
+        reason: `invalid specifier jsr:${specifier}`,
+      };
+    }
+    const packageUrl = `${this.jsrUrl}${parsed.name}/`;
+
+    // Without the package metadata only an exact version can be looked up
+    const meta = this.readCachedJson(`${packageUrl}meta.json`);
+    const versions = Object.entries(
+      (meta?.versions ?? {}) as Record<string, { yanked?: boolean }>,
+    ).filter(([, info]) => !info.yanked).map(([version]) => version);
+    const candidates = meta ? versions : [parsed.range];
+    const version = maxSatisfying(
+      candidates.filter((version) =>
+        this.readCachedJson(`${packageUrl}${version}_meta.json`)
+      ),
+      parsed.range,
+    );
+    if (!version) {
+      return {
+        kind: "unresolved",
+        reason: `no version of jsr:${parsed.name}${
+          parsed.range && `@${parsed.range}`
+        } is in the Deno cache`,
+      };
+    }
+
+    const versionMeta = this.readCachedJson(
+      `${packageUrl}${version}_meta.json`,
+    )!;
+    const exports = (versionMeta.exports ?? {}) as Record<string, string>;
+    const target = exports[`.${parsed.subpath}`];
+    if (!target) {
+      return {
+        kind: "unresolved",
+        reason:
+          `jsr:${parsed.name}@${version} doesn't export '.${parsed.subpath}'`,
+      };
+    }
+    return this.resolveRemote(new URL(target, `${packageUrl}${version}/`).href);
+  }
+
+  /** Finds the directory of an npm package in `node_modules` or the cache */
+  private npmPackageDir(
+    name: string,
+    range: string,
+    importer: string,
+  ): string | undefined {
+    for (let dir = path.dirname(importer);; dir = path.dirname(dir)) {
+      const packageDir = path.join(dir, "node_modules", name);
+      const manifest = this.packageJson(packageDir);
+      if (
+        typeof manifest?.version === "string" &&
+        satisfies(manifest.version, range)
+      ) {
+        return packageDir;
+      }
+      if (path.dirname(dir) === dir) break;
+    }
+
+    const registryDir = path.join(
+      this.cacheDir,
+      "npm",
+      "registry.npmjs.org",
+      name,
+    );
+    let versions: string[];
+    try {
+      versions = [...Deno.readDirSync(registryDir)]
+        .filter((entry) => entry.isDirectory)
+        .map((entry) => entry.name);
+    } catch (error) {
+      if (error instanceof Deno.errors.NotFound) return undefined;
+      throw error;
+    }
+    const version = maxSatisfying(versions, range);
+    return version && path.join(registryDir, version);
+  }
+
+  private packageJson(packageDir: string) {
+    const manifestPath = path.join(packageDir, "package.json");
+    if (!this.packages.has(manifestPath)) {
+      const text = readText(manifestPath);
+      this.packages.set(manifestPath, text ? JSON.parse(text) : undefined);
+    }
+    return this.packages.get(manifestPath);
+  }
+
+  private resolveNpm(specifier: string, importer: string): Resolution {
+    const parsed = parsePackageSpecifier(specifier);
+    const packageDir = parsed &&
+      this.npmPackageDir(parsed.name, parsed.range, importer);
+    if (!parsed || !packageDir) {
+      return {
+        kind: "unresolved",
+        reason: `npm:${specifier} is not in node_modules or the Deno cache`,
+      };
+    }
+
+    const manifest = this.packageJson(packageDir) ?? {};
+    const exports = manifest.exports;
+    let target: string | undefined;
+    if (exports !== undefined) {
+      const subpath = `.${parsed.subpath}`;
+      const isSubpathMap = typeof exports === "object" && exports !== null &&
+        !Array.isArray(exports) &&
+        Object.keys(exports).some((key) => key.startsWith("."));
+      target = resolveExportTarget(
+        isSubpathMap
+          ? (exports as Record<string, unknown>)[subpath]
+          : subpath === "."
+          ? exports
+          : undefined,
+      );
+    } else if (parsed.subpath) {
+      target = `.${parsed.subpath}`;
+    } else {
+      target = [manifest.module, manifest.main]
+        .find((entry): entry is string => typeof entry === "string") ??
+        "index.js";
+    }
+
+    const resolved = target &&
+      [
+        "",
+        ".js",
+        ".mjs",
+        ".cjs",
+        "/index.js",
+      ].map((extension) => path.join(packageDir, target + extension))
+        .find(isFile);
+    if (!resolved) {
+      return {
+        kind: "unresolved",
+        reason: `npm:${specifier} has no entry point for '.${parsed.subpath}'`,
+      };
+    }
+    return { kind: "file", path: resolved };
+  }
+}
@@ -0,0 +1,131 @@
+import { assertEquals, assertStringIncludes } from "jsr:@std/assert@1.0.11";
+import fs from "node:fs";
+import { fromFileUrl } from "jsr:@std/path@1.0.8";
+import { TypeScriptAnalyzer } from "./analyzer.ts";
+import { withTempDir } from "./test_utils.ts";
+import {
+  assertNoBlockingCalls,
+  BlockingDetector,
+  LagMonitor,
+  markRegion,
+} from "./runtime.ts";
+
+const file = fromFileUrl(import.meta.url);
+
+class Repo {
+  load() {
+    return Deno.readTextFileSync(file);
+  }
+}
+
+function handler() {
+  return new Repo().load();
+}
+
+Deno.test("BlockingDetector records sync calls with their stack", () => {
+  const original = Deno.readTextFileSync;
+  const detector = new BlockingDetector({ allow: ["Deno.statSync"] }).install();
+  try {
+    handler();
+    fs.readFileSync(file);
+    Deno.statSync(file);
+  } finally {
+    detector.uninstall();
+  }
+  Deno.readTextFileSync(file);
+
+  assertEquals(Deno.readTextFileSync, original);
+  assertEquals(
+    detector.calls.map((call) => [
+      call.rootCall!.api,
+      call.chain!.slice(-2),
+      call.rootCall!.location.line,
+    ]),
+    [
+      ["Deno.readTextFileSync", [`${file}#handler`, `${file}#Repo.load`], 17],
+      ["node:fs.readFileSync", [`${file}#<anonymous>`], 30],
+    ],
+  );
+  assertEquals(detector.report().blockingFunctions.length, 2);
+});
+
+Deno.test("BlockingDetector only reports calls over the threshold", () => {
+  const detector = new BlockingDetector({ threshold: 60_000 }).install();
+  try {
+    handler();
+  } finally {
+    detector.uninstall();
+  }
+  assertEquals(detector.calls, []);
+});
+
+Deno.test("assertNoBlockingCalls fails on blocking request handlers", async () => {
+  await assertNoBlockingCalls(() => Deno.readTextFile(file));
+  const error = await assertNoBlockingCalls(handler).then(
+    () => undefined,
+    (error: Error) => error,
+  );
+  assertStringIncludes(
+    error?.message ?? "",
+    "handler -> Repo.load -> Deno.readTextFileSync",
+  );
+});
+
+const cache = {
+  warm() {
+    function read() {
+      return Deno.readTextFileSync(file);
+    }
+    return read();
+  },
+};
+
+Deno.test("BlockingDetector reports functions with the analyzer's IDs", () => {
+  const detector = new BlockingDetector().install();
+  try {
+    cache.warm();
+  } finally {
+    detector.uninstall();
+  }
+  // An empty Deno cache keeps the analysis to the modules of this repository
+  const report = withTempDir({}, (cacheDir) => {
+    const analyzer = new TypeScriptAnalyzer({ cacheDir });
+    analyzer.analyzeFile(file);
+    return detector.report(analyzer);
+  });
+
+  assertEquals(detector.calls[0].chain!.slice(-2), [
+    `${file}#Object.warm`,
+    `${file}#read`,
+  ]);
+  assertEquals(report.blockingFunctions[0].chain!.slice(-2), [
+    `${file}#cache.warm`,
+    `${file}#cache.warm.read`,
+  ]);
+});
+
+function stall(ms: number) {
+  const end = performance.now() + ms;
+  while (performance.now() < end);
+}
+
+Deno.test("LagMonitor attributes stalls to the last sync call or region", async () => {
+  // Stalls are far over the budget so that a loaded machine doesn't matter
+  const monitor = new LagMonitor({ interval: 10, budget: 50 }).start();
+  const tick = () => new Promise((resolve) => setTimeout(resolve, 30));
+  await tick();
+  handler();
+  stall(300);
+  await tick();
+  markRegion("render", () => stall(300));
+  await tick();
+  const summary = monitor.stop();
+
+  const sites = Object.fromEntries(
+    summary.sites.map((site) => [site.api, site]),
+  );
+  assertEquals(sites["Deno.readTextFileSync"].function, `${file}#Repo.load`);
+  assertEquals(sites["Deno.readTextFileSync"].location?.line, 17);
+  assertEquals(sites["render"].location?.file, file);
+  assertEquals(sites["render"].maxMs > 50, true);
+});
@@ -0,0 +1,432 @@
+// runtime.ts
+import fs from "node:fs";
+import * as path from "jsr:@std/path@1.0.8";
+import type { FunctionLocation, TypeScriptAnalyzer } from "./analyzer.ts";
+import { matchesApi } from "./config.ts";
+import {
+  type BlockingFunctionReport,
+  formatText,
+  groupFindings,
+  type Report,
+} from "./report.ts";
+
+/**
+ * A sync API call observed at runtime, in the analyzer's report format: `id`,
+ * `name` and `location` are those of the outermost function on the stack,
+ * `chain` goes from it to the function making the call, and locations are
+ * those of the stack frames. Functions are named after their V8 frames, see
+ * `BlockingDetector.report` for the analyzer's IDs.
+ */
+export interface RuntimeBlockingCall extends BlockingFunctionReport {
+  /** Milliseconds the call held the event loop */
+  duration: number;
+  /** Stack trace captured when the call returned */
+  stack: string;
+}
+
+export interface BlockingDetectorOptions {
+  /** Milliseconds a call must hold the event loop to be reported (0) */
+  threshold?: number;
+  /** APIs not to report, matched like `Config.allow` */
+  allow?: string[];
+  /** Called with each reported call as it happens */
+  onBlockingCall?: (call: RuntimeBlockingCall) => void;
+}
+
+/** A sync API replaced by a measuring wrapper */
+interface WrappedApi {
+  owner: Record<string, unknown>;
+  name: string;
+  original: (...args: unknown[]) => unknown;
+}
+
+/** Listeners of the detectors currently installed, sharing the wrapped APIs */
+const listeners = new Set<(call: RuntimeBlockingCall) => void>();
+let wrapped: WrappedApi[] = [];
+/** Wrapped calls in progress: calls they make themselves aren't measured */
+let depth = 0;
+
+/** The sync APIs to wrap, by label as `blockingCallLabel` formats them */
+function syncApis(): [string, Record<string, unknown>, string][] {
+  const apis: [string, Record<string, unknown>, string][] = [];
+  const collect = (
+    prefix: string,
+    owner: Record<string, unknown>,
+  ) => {
+    for (const name of Object.getOwnPropertyNames(owner)) {
+      const descriptor = Object.getOwnPropertyDescriptor(owner, name);
+      if (name.endsWith("Sync") && typeof descriptor?.value === "function") {
+        apis.push([`${prefix}${name}`, owner, name]);
+      }
+    }
+  };
+  collect("Deno.", Deno as unknown as Record<string, unknown>);
+  collect(
+    "Deno.FsFile#",
+    Deno.FsFile.prototype as unknown as Record<string, unknown>,
+  );
+  collect(
+    "Deno.Command#",
+    Deno.Command.prototype as unknown as Record<string, unknown>,
+  );
+  collect("node:fs.", fs as unknown as Record<string, unknown>);
+  return apis;
+}
+
+/** Function ID, in the analyzer's format, and location of a stack frame */
+interface Frame {
+  id: string;
+  file: string;
+  line: number;
+  column: number;
+}
+
+const FRAME = /^\s*at (?:async )?(?:(.+?) \()?(file:\/\/.+?):(\d+):(\d+)\)?$/;
+
+/**
+ * Parses the frames of `stack` in user code, innermost first, naming
+ * functions after their frames: `Repo.load`, `Repo.constructor`. Names of
+ * nested functions and object literal methods differ from the analyzer's.
+ */
+function userFrames(stack: string): Frame[] {
+  const frames: Frame[] = [];
+  for (const line of stack.split("\n")) {
+    const match = line.match(FRAME);
+    if (!match || match[2] === import.meta.url) continue;
+    const [, caller, url, frameLine, frameColumn] = match;
+    const file = path.fromFileUrl(url);
+    const name = caller?.startsWith("new ")
+      ? `${caller.slice(4)}.constructor`
+      : caller ?? "<anonymous>";
+    frames.push({
+      id: `${file}#${name}`,
+      file,
+      line: Number(frameLine),
+      column: Number(frameColumn),
+    });
+  }
+  return frames;
+}
+
+/**
+ * Identifies frames by the function `analyzer` finds at their location,
+ * keeping their names in code it hasn't analyzed
+ */
+function analyzerFrames(frames: Frame[], analyzer: TypeScriptAnalyzer) {
+  return frames.map((frame) => ({
+    ...frame,
+    id: analyzer.functionAt(frame.file, frame.line, frame.column) ?? frame.id,
+  }));
+}
+
+/** A call to `api` made in the innermost of `frames`, if there is one */
+function runtimeCall(
+  api: string,
+  duration: number,
+  stack: string,
+  frames: Frame[],
+): RuntimeBlockingCall | undefined {
+  const [call] = frames;
+  if (!call) return undefined;
+  const outermost = frames.at(-1)!;
+  return {
+    id: outermost.id,
+    name: outermost.id.slice(outermost.id.indexOf("#") + 1),
+    location: {
+      file: outermost.file,
+      line: outermost.line,
+      column: outermost.column,
+    },
+    rootCall: {
+      api,
+      location: { file: call.file, line: call.line, column: call.column },
+    },
+    chain: frames.map((frame) => frame.id).reverse(),
+    duration,
+    stack,
+  };
+}
+
+function record(api: string, duration: number, stack: string) {
+  const blockingCall = runtimeCall(api, duration, stack, userFrames(stack));
+  if (!blockingCall) return;
+  for (const listener of listeners) listener(blockingCall);
+}
+
+function wrapApis() {
+  wrapped = syncApis().map(([api, owner, name]) => {
+    const original = owner[name] as (...args: unknown[]) => unknown;
+    owner[name] = function (this: unknown, ...args: unknown[]) {
+      if (depth > 0) return original.apply(this, args);
+      depth++;
+      const start = performance.now();
+      try {
+        return original.apply(this, args);
+      } finally {
+        depth--;
+        record(api, performance.now() - start, new Error().stack ?? "");
+      }
+    };
+    return { owner, name, original };
+  });
+}
+
+function unwrapApis() {
+  for (const { owner, name, original } of wrapped) owner[name] = original;
+  wrapped = [];
+}
+
+/** Starts listening to sync calls, wrapping the APIs for the first listener */
+function addListener(listener: (call: RuntimeBlockingCall) => void) {
+  if (listeners.size === 0) wrapApis();
+  listeners.add(listener);
+}
+
+function removeListener(listener: (call: RuntimeBlockingCall) => void) {
+  listeners.delete(listener);
+  if (listeners.size === 0) unwrapApis();
+}
+
+/**
+ * Detects blocking calls at runtime, for development and tests: while
+ * installed, `Deno.*Sync` functions, the sync methods of `Deno.FsFile` and
+ * `Deno.Command`, and the sync APIs of `node:fs` measure how long each call
+ * holds the event loop, and calls over the threshold are recorded with their
+ * stack. Catches what static analysis misses, such as dynamic dispatch.
+ *
+ * `node:fs` APIs are only seen when called through the module object
+ * (`import fs from "node:fs"`), as named imports are bound to the originals.
+ */
+export class BlockingDetector {
+  /** Calls over the threshold since the detector was installed or reset */
+  calls: RuntimeBlockingCall[] = [];
+
+  constructor(private options: BlockingDetectorOptions = {}) {}
+
+  /** Records `call` if it is over the threshold and not allowed */
+  private listener = (call: RuntimeBlockingCall) => {
+    if (
+      call.duration < (this.options.threshold ?? 0) ||
+      matchesApi(call.rootCall!.api, this.options.allow ?? [])
+    ) {
+      return;
+    }
+    this.calls.push(call);
+    this.options.onBlockingCall?.(call);
+  };
+
+  install(): this {
+    addListener(this.listener);
+    return this;
+  }
+
+  uninstall() {
+    removeListener(this.listener);
+  }
+
+  reset() {
+    this.calls = [];
+  }
+
+  /**
+   * The recorded calls as an analyzer report, so `formatReport` prints them.
+   * Given an analyzer that analyzed the code on the stacks, functions are
+   * identified by location with its IDs, so calls can be compared with the
+   * static findings. Calls with the same chain and call site are reported
+   * once, with their longest duration.
+   */
+  report(analyzer?: TypeScriptAnalyzer): Report {
+    const calls = analyzer
+      ? this.calls.map((call) =>
+        runtimeCall(
+          call.rootCall!.api,
+          call.duration,
+          call.stack,
+          analyzerFrames(userFrames(call.stack), analyzer),
+        )!
+      )
+      : this.calls;
+    const longest = new Map<string, RuntimeBlockingCall>();
+    for (const call of calls) {
+      const { file, line, column } = call.rootCall!.location;
+      const key = `${call.chain!.join(" ")} ${file}:${line}:${column}`;
+      if ((longest.get(key)?.duration ?? -1) < call.duration) {
+        longest.set(key, call);
+      }
+    }
+    const blockingFunctions = [...longest.values()].sort((a, b) =>
+      a.id.localeCompare(b.id)
+    );
+    return {
+      findings: groupFindings(blockingFunctions),
+      blockingFunctions,
+      staleAnnotations: [],
+      unresolvedDependencies: [],
+    };
+  }
+}
+
+/**
+ * Runs `fn` with a detector installed and throws, listing them, if it made
+ * blocking calls, e.g. `await assertNoBlockingCalls(() => handler(request))`
+ */
+export async function assertNoBlockingCalls(
+  fn: () => unknown,
+  options: BlockingDetectorOptions = {},
+): Promise<void> {
+  const detector = new BlockingDetector(options).install();
+  try {
+    await fn();
+  } finally {
+    detector.uninstall();
+  }
+  if (detector.calls.length > 0) {
+    throw new Error(
+      `Blocking calls were made:${formatText(detector.report())}`,
+    );
+  }
+}
+
+/** Event-loop stalls attributed to one call site, see `LagMonitor` */
+export interface LagSite {
+  /** The sync API or marked region, `<unattributed>` when there was none */
+  api: string;
+  /** Where the call or region was made */
+  location?: FunctionLocation;
+  /** ID of the function making the call, named after its stack frame */
+  function?: string;
+  /** Number of stalls over the budget */
+  count: number;
+  /** Milliseconds the event loop was stalled, in total and at most */
+  totalMs: number;
+  maxMs: number;
+}
+
+/** What `LagMonitor` measured, as read by the analyzer CLI's `--lag` option */
+export interface LagSummary {
+  interval: number;
+  budget: number;
+  /** Call sites, the longest stalled first */
+  sites: LagSite[];
+}
+
+export interface LagMonitorOptions {
+  /** Milliseconds between two samples of the event loop (10) */
+  interval?: number;
+  /** Lag in milliseconds above which a sample counts as a stall (50) */
+  budget?: number;
+}
+
+/** The instrumented call or marked region that ended last */
+interface RecentWork {
+  api: string;
+  frame?: Frame;
+}
+
+/** Listeners of the monitors currently started, notified of marked regions */
+const regionListeners = new Set<(region: RecentWork) => void>();
+
+/**
+ * Samples event-loop lag by measuring how late a timer fires. Stalls over the
+ * budget are attributed to the last instrumented sync call (see
+ * `BlockingDetector`) or `markRegion` region that ran since the previous
+ * sample, and summed per call site.
+ */
+export class LagMonitor {
+  private sites = new Map<string, LagSite>();
+  private timer?: number;
+  private last = 0;
+  private recent?: RecentWork;
+  private interval: number;
+  private budget: number;
+
+  constructor(options: LagMonitorOptions = {}) {
+    this.interval = options.interval ?? 10;
+    this.budget = options.budget ?? 50;
+  }
+
+  private listener = (call: RuntimeBlockingCall) => {
+    const { api, location } = call.rootCall!;
+    this.recent = {
+      api,
+      frame: { id: call.chain!.at(-1)!, ...location },
+    };
+  };
+
+  private regionListener = (region: RecentWork) => {
+    this.recent = region;
+  };
+
+  private sample() {
+    const now = performance.now();
+    const lag = now - this.last - this.interval;
+    this.last = now;
+    if (lag > this.budget) {
+      const { api, frame } = this.recent ?? { api: "<unattributed>" };
+      const key = frame
+        ? `${api} ${frame.file}:${frame.line}:${frame.column}`
+        : api;
+      const site = this.sites.get(key) ?? {
+        api,
+        ...(frame && {
+          location: {
+            file: frame.file,
+            line: frame.line,
+            column: frame.column,
+          },
+          function: frame.id,
+        }),
+        count: 0,
+        totalMs: 0,
+        maxMs: 0,
+      };
+      site.count++;
+      site.totalMs += lag;
+      site.maxMs = Math.max(site.maxMs, lag);
+      this.sites.set(key, site);
+    }
+    this.recent = undefined;
+  }
+
+  start(): this {
+    addListener(this.listener);
+    regionListeners.add(this.regionListener);
+    this.last = performance.now();
+    this.timer = setInterval(() => this.sample(), this.interval);
+    // Monitoring shouldn't keep the process alive
+    Deno.unrefTimer(this.timer);
+    return this;
+  }
+
+  /** Stops sampling, returning the summary */
+  stop(): LagSummary {
+    clearInterval(this.timer);
+    regionListeners.delete(this.regionListener);
+    removeListener(this.listener);
+    return this.summary();
+  }
+
+  summary(): LagSummary {
+    return {
+      interval: this.interval,
+      budget: this.budget,
+      sites: [...this.sites.values()].sort((a, b) => b.totalMs - a.totalMs),
+    };
+  }
+}
+
+/**
+ * Runs `fn` as a region named `name`, which started `LagMonitor`s attribute
+ * the stalls it causes to, e.g. `markRegion("render", () => render(page))`.
+ * Only the synchronous part of `fn` is covered.
+ */
+export function markRegion<T>(name: string, fn: () => T): T {
+  try {
+    return fn();
+  } finally {
+    if (regionListeners.size > 0) {
+      const [frame] = userFrames(new Error().stack ?? "");
+      for (const listener of regionListeners) listener({ api: name, frame });
+    }
+  }
+}
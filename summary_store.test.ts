@@ -0,0 +1,47 @@
+import { assertEquals } from "jsr:@std/assert@1.0.11";
+import { SummaryStore } from "./summary_store.ts";
+import { withTempDir } from "./test_utils.ts";
+
+Deno.test("SummaryStore only returns summaries written with the same key and stamp", () => {
+  withTempDir({}, (dir) => {
+    const store = new SummaryStore<string[]>(dir, { version: 1, allow: [] });
+    store.write("/src/main.ts", "1:100", ["load"]);
+
+    assertEquals(store.read("/src/main.ts", "1:100"), ["load"]);
+    assertEquals(store.read("/src/main.ts", "2:100"), undefined);
+    assertEquals(store.read("/src/other.ts", "1:100"), undefined);
+    assertEquals(
+      new SummaryStore(dir, { version: 1, allow: [] }).read(
+        "/src/main.ts",
+        "1:100",
+      ),
+      ["load"],
+    );
+    assertEquals(
+      new SummaryStore(dir, { version: 2, allow: [] }).read(
+        "/src/main.ts",
+        "1:100",
+      ),
+      undefined,
+    );
+    assertEquals(
+      new SummaryStore(dir, { version: 1, allow: ["Deno.cwd"] }).read(
+        "/src/main.ts",
+        "1:100",
+      ),
+      undefined,
+    );
+  });
+});
+
+Deno.test("SummaryStore recomputes corrupt entries", () => {
+  withTempDir({}, (dir) => {
+    const store = new SummaryStore<string[]>(dir, {});
+    store.write("/src/main.ts", "1:100", ["load"]);
+    for (const entry of Deno.readDirSync(dir)) {
+      Deno.writeTextFileSync(`${dir}/${entry.name}`, "{");
+    }
+
+    assertEquals(store.read("/src/main.ts", "1:100"), undefined);
+  });
+});
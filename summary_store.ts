@@ -0,0 +1,59 @@
+// summary_store.ts
+import { createHash } from "node:crypto";
+import * as path from "jsr:@std/path@1.0.8";
+
+interface StoredSummary<T> {
+  key: string;
+  stamp: string;
+  summary: T;
+}
+
+function hash(text: string): string {
+  return createHash("sha256").update(text).digest("hex");
+}
+
+/**
+ * Persists per-module analysis summaries in a directory, one JSON file per
+ * module. Entries are only returned for the same `key` (analyzer version and
+ * configuration) and file `stamp` they were written with.
+ */
+export class SummaryStore<T> {
+  private key: string;
+  private created = false;
+
+  constructor(private dir: string, key: unknown) {
+    this.key = hash(JSON.stringify(key));
+  }
+
+  private entryPath(filePath: string): string {
+    return path.join(this.dir, `${hash(filePath)}.json`);
+  }
+
+  /** The summary stored for `filePath`, if it is still valid */
+  read(filePath: string, stamp: string): T | undefined {
+    let stored: StoredSummary<T>;
+    try {
+      stored = JSON.parse(Deno.readTextFileSync(this.entryPath(filePath)));
+    } catch {
+      // Missing, unreadable or corrupt entries are recomputed
+      return undefined;
+    }
+    return stored.key === this.key && stored.stamp === stamp
+      ? stored.summary
+      : undefined;
+  }
+
+  write(filePath: string, stamp: string, summary: T) {
+    const stored: StoredSummary<T> = { key: this.key, stamp, summary };
+    try {
+      if (!this.created) {
+        Deno.mkdirSync(this.dir, { recursive: true });
+        this.created = true;
+      }
+      Deno.writeTextFileSync(this.entryPath(filePath), JSON.stringify(stored));
+    } catch {
+      // The cache is an optimization: a read-only or unavailable directory
+      // only means summaries get recomputed next time
+    }
+  }
+}
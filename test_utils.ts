@@ -0,0 +1,24 @@
+// test_utils.ts
+
+/**
+ * Runs `fn` with a new temporary directory holding `files`, by path relative
+ * to it, and removes the directory once `fn` returns
+ */
+export function withTempDir<T>(
+  files: Record<string, string>,
+  fn: (dir: string) => T,
+): T {
+  const dir = Deno.makeTempDirSync();
+  try {
+    for (const [name, content] of Object.entries(files)) {
+      const filePath = `${dir}/${name}`;
+      Deno.mkdirSync(filePath.slice(0, filePath.lastIndexOf("/")), {
+        recursive: true,
+      });
+      Deno.writeTextFileSync(filePath, content);
+    }
+    return fn(dir);
+  } finally {
+    Deno.removeSync(dir, { recursive: true });
+  }
+}